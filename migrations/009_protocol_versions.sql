@@ -0,0 +1,41 @@
+-- Migration 009: Versioned contract registry and per-token protocol version
+-- Run with: psql $DATABASE_URL -f migrations/009_protocol_versions.sql
+
+-- Which cc0strategy generation (factory/hook/FeeDistributor) a token belongs to
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS protocol_version VARCHAR(10);
+CREATE INDEX IF NOT EXISTS idx_tokens_protocol_version ON tokens(chain, protocol_version);
+
+-- Ethereum only ever had the V2 contracts; Base tokens get tagged by the indexer re-scan
+UPDATE tokens SET protocol_version = 'v2' WHERE chain = 'ethereum' AND protocol_version IS NULL;
+
+-- Contract addresses are now keyed by generation as well
+ALTER TABLE contract_addresses ADD COLUMN IF NOT EXISTS version VARCHAR(10) NOT NULL DEFAULT 'v1';
+ALTER TABLE contract_addresses ADD COLUMN IF NOT EXISTS start_block BIGINT;
+ALTER TABLE contract_addresses ADD COLUMN IF NOT EXISTS end_block BIGINT;
+ALTER TABLE contract_addresses DROP CONSTRAINT IF EXISTS contract_addresses_chain_contract_name_key;
+ALTER TABLE contract_addresses ADD CONSTRAINT contract_addresses_chain_name_version_key UNIQUE (chain, contract_name, version);
+
+UPDATE contract_addresses SET start_block = 26700000
+WHERE chain = 'base' AND version = 'v1' AND contract_name = 'factory';
+
+INSERT INTO contract_addresses (chain, contract_name, address, version, start_block, notes) VALUES
+('base', 'factory', '0xDbbC0A64fFe2a23b4543b0731CF61ef0d5d4E265', 'v2', 26700000, 'Token deployment'),
+('base', 'hook', '0x5eE3602f499cFEAa4E13D27b4F7D2661906b28cC', 'v2', NULL, '1% fee capture'),
+('base', 'fee_distributor', '0x498bcfdbd724989fc37259faba75168c8f47080d', 'v2', NULL, '80/10/10 split'),
+('base', 'lp_locker', '0x5821e651D6fBF096dB3cBD9a21FaE4F5A1E2620A', 'v2', NULL, 'Fee collection'),
+('ethereum', 'factory', '0x1dc68bc05ecb132059fb45b281dbfa92b6fab610', 'v2', 24460000, 'Token deployment'),
+('ethereum', 'hook', '0xEfd2F889eD9d7A2Bf6B6C9c2b20c5AEb6EBEe8Cc', 'v2', NULL, '1% fee capture'),
+('ethereum', 'fee_distributor', '0xdcfb59f2d41c58a1325b270c2f402c1884338d0d', 'v2', NULL, '80/10/10 split'),
+('ethereum', 'lp_locker', '0x05492c0091e49374e71c93e74739d3f650b59077', 'v2', NULL, 'Fee collection')
+ON CONFLICT (chain, contract_name, version) DO UPDATE SET
+    address = EXCLUDED.address,
+    start_block = EXCLUDED.start_block;
+
+-- Factory checkpoints are now per generation; `<chain>:factory` tracked the V2 factory
+UPDATE indexer_state SET id = id || ':v2'
+WHERE id IN ('base:factory', 'ethereum:factory')
+AND NOT EXISTS (SELECT 1 FROM indexer_state s WHERE s.id = indexer_state.id || ':v2');
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_009', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
@@ -0,0 +1,22 @@
+-- Migration 010: Block hashes for reorg detection
+-- Run with: psql $DATABASE_URL -f migrations/010_reorg_tracking.sql
+
+-- Hashes of recently indexed blocks (only the unfinalized window is kept)
+CREATE TABLE IF NOT EXISTS indexed_blocks (
+    chain VARCHAR(20) NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (chain, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexed_blocks_chain_block ON indexed_blocks(chain, block_number DESC);
+
+-- Rollbacks look up a chain's rows by block
+CREATE INDEX IF NOT EXISTS idx_tokens_chain_deploy_block ON tokens(chain, deploy_block);
+CREATE INDEX IF NOT EXISTS idx_fees_block ON fees(block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_claims_block ON claims(block_number DESC);
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_010', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
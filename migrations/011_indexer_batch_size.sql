@@ -0,0 +1,8 @@
+-- Migration 011: Remember the adaptive getLogs range size per checkpoint
+-- Run with: psql $DATABASE_URL -f migrations/011_indexer_batch_size.sql
+
+ALTER TABLE indexer_state ADD COLUMN IF NOT EXISTS batch_size INTEGER;
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_011', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
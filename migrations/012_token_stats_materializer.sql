@@ -0,0 +1,29 @@
+-- Migration 012: Inputs for materialized token_stats
+-- Run with: psql $DATABASE_URL -f migrations/012_token_stats_materializer.sql
+
+-- Pool state after each swap (from the V4 Swap event) - liquidity is derived from the latest one
+ALTER TABLE swaps ADD COLUMN IF NOT EXISTS sqrt_price_x96 VARCHAR(78);
+ALTER TABLE swaps ADD COLUMN IF NOT EXISTS liquidity VARCHAR(78);
+ALTER TABLE swaps ADD COLUMN IF NOT EXISTS tick INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_swaps_token_timestamp ON swaps(token_address, block_timestamp DESC);
+
+-- ERC20 totalSupply, read once per token for market cap / FDV
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS total_supply VARCHAR(78);
+
+-- token_stats has no updated_at column, so this trigger made every UPDATE fail;
+-- the materializer writes last_updated itself
+DROP TRIGGER IF EXISTS token_stats_updated_at ON token_stats;
+
+COMMENT ON COLUMN token_stats.volume_24h IS 'wei';
+COMMENT ON COLUMN token_stats.tvl IS 'wei, both pool sides valued in ETH';
+COMMENT ON COLUMN token_stats.liquidity_eth IS 'wei, ETH side of the pool at the last swap';
+COMMENT ON COLUMN token_stats.liquidity_token IS 'token base units, token side of the pool at the last swap';
+COMMENT ON COLUMN token_stats.price_eth IS 'ETH per whole token';
+COMMENT ON COLUMN token_stats.pending_fees IS 'wei, holder share received minus claimed';
+COMMENT ON COLUMN token_stats.market_cap_eth IS 'wei, price x supply outside the pool';
+COMMENT ON COLUMN token_stats.fully_diluted_valuation IS 'wei, price x total supply';
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_012', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
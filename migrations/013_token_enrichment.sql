@@ -0,0 +1,35 @@
+-- Migration 013: Enrichment state for indexed tokens
+-- Run with: psql $DATABASE_URL -f migrations/013_token_enrichment.sql
+
+-- collections is normally created by the API server on boot; the enrichment job
+-- links tokens to it, so make sure it exists when only the indexer has run
+CREATE TABLE IF NOT EXISTS collections (
+    id SERIAL PRIMARY KEY,
+    address TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    image_url TEXT,
+    description TEXT,
+    is_cc0 BOOLEAN DEFAULT true,
+    floor_price_eth NUMERIC,
+    total_supply INTEGER,
+    holder_count INTEGER,
+    added_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(address, chain_id)
+);
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS collection_id INTEGER REFERENCES collections(id);
+
+-- pending: steps left to do (see enrichment_missing); complete: nothing left
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS enrichment_status VARCHAR(16) NOT NULL DEFAULT 'pending';
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS enrichment_missing TEXT[];
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS enrichment_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS enrichment_error TEXT;
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS enrichment_next_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_enrichment ON tokens(enrichment_status, enrichment_next_at);
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_013', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
@@ -0,0 +1,40 @@
+-- Migration 014: ERC721 ownership for linked NFT collections
+-- Run with: psql $DATABASE_URL -f migrations/014_nft_ownership.sql
+
+-- Every Transfer of a linked collection (mints from 0x0, burns to 0x0)
+CREATE TABLE IF NOT EXISTS nft_transfers (
+    id BIGSERIAL PRIMARY KEY,
+    chain VARCHAR(20) NOT NULL,
+    collection VARCHAR(42) NOT NULL,
+    token_id NUMERIC(78, 0) NOT NULL,
+    from_address VARCHAR(42) NOT NULL,
+    to_address VARCHAR(42) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    log_index INTEGER NOT NULL,
+    UNIQUE(chain, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_transfers_token ON nft_transfers(chain, collection, token_id, block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_nft_transfers_from ON nft_transfers(chain, from_address);
+CREATE INDEX IF NOT EXISTS idx_nft_transfers_to ON nft_transfers(chain, to_address);
+CREATE INDEX IF NOT EXISTS idx_nft_transfers_block ON nft_transfers(chain, block_number DESC);
+
+-- Current owner per NFT; burned tokens keep the zero address
+CREATE TABLE IF NOT EXISTS nft_owners (
+    chain VARCHAR(20) NOT NULL,
+    collection VARCHAR(42) NOT NULL,
+    token_id NUMERIC(78, 0) NOT NULL,
+    owner VARCHAR(42) NOT NULL,
+    last_block BIGINT NOT NULL,
+    last_log_index INTEGER NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (chain, collection, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_owners_owner ON nft_owners(chain, owner);
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_014', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
@@ -0,0 +1,26 @@
+-- Migration 015: Rewards snapshots time series
+-- Run with: psql $DATABASE_URL -f migrations/015_rewards_snapshots.sql
+
+-- Written by the API server's rewards refresh whenever a token's FeeDistributor
+-- values change (at most every 15 minutes per token). Unchanged values are not
+-- repeated, so the value at any time is the latest row at or before it.
+CREATE TABLE IF NOT EXISTS rewards_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    chain VARCHAR(20) NOT NULL,
+    token_address VARCHAR(42) NOT NULL,
+    block_number BIGINT NOT NULL,
+    acc_reward_per_nft NUMERIC(78, 0) NOT NULL,
+    nft_supply NUMERIC(78, 0) NOT NULL,
+    total_rewards NUMERIC NOT NULL,
+    snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(chain, token_address, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rewards_snapshots_token ON rewards_snapshots(token_address, snapshot_at DESC);
+
+COMMENT ON COLUMN rewards_snapshots.acc_reward_per_nft IS 'FeeDistributor accumulatedRewards(token): wei per NFT scaled by 1e18';
+COMMENT ON COLUMN rewards_snapshots.total_rewards IS 'ETH (decimal), accRewardPerNFT * nftSupply / 1e18';
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_015', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
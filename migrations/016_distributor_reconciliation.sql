@@ -0,0 +1,37 @@
+-- Migration 016: FeeDistributor reconciliation results
+-- Run with: psql $DATABASE_URL -f migrations/016_distributor_reconciliation.sql
+
+-- One row per distributor per run of the indexer's reconciliation job. On-chain
+-- reads are pinned to block_number, the block indexed fees/claims are complete to.
+-- Amounts are wei.
+CREATE TABLE IF NOT EXISTS distributor_reconciliations (
+    id BIGSERIAL PRIMARY KEY,
+    chain VARCHAR(20) NOT NULL,
+    fee_distributor VARCHAR(42) NOT NULL,
+    versions TEXT[] NOT NULL,
+    block_number BIGINT NOT NULL,
+    token_count INTEGER NOT NULL,
+    accrued_rewards NUMERIC(78, 0) NOT NULL,
+    fees_received NUMERIC(78, 0) NOT NULL,
+    holder_fees NUMERIC(78, 0) NOT NULL,
+    fees_claimed NUMERIC(78, 0) NOT NULL,
+    eth_balance NUMERIC(78, 0) NOT NULL,
+    weth_balance NUMERIC(78, 0) NOT NULL,
+    owed NUMERIC(78, 0) NOT NULL,
+    shortfall NUMERIC(78, 0) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    discrepancies JSONB NOT NULL DEFAULT '[]',
+    checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_distributor_reconciliations_latest
+    ON distributor_reconciliations(chain, fee_distributor, checked_at DESC);
+
+COMMENT ON COLUMN distributor_reconciliations.accrued_rewards IS 'sum of accRewardPerNFT * nftSupply / 1e18 over the distributor''s tokens';
+COMMENT ON COLUMN distributor_reconciliations.holder_fees IS 'indexed holder share: sum of fee_per_nft * total_nfts';
+COMMENT ON COLUMN distributor_reconciliations.owed IS 'accrued_rewards - fees_claimed, what holders can still claim';
+COMMENT ON COLUMN distributor_reconciliations.status IS 'ok | mismatch (accrued vs indexed differ) | insolvent (balance below owed)';
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_016', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
@@ -0,0 +1,28 @@
+-- Migration 017: ETH/USD reference price history
+-- Run with: psql $DATABASE_URL -f migrations/017_eth_usd_prices.sql
+
+-- Written by the indexer (src/indexer/eth-usd.ts): a sample at the chain head every
+-- 10 minutes, plus one per 10-minute bucket that holds swaps or fees without a USD
+-- value, read at that block. The price at any time is the nearest sample.
+CREATE TABLE IF NOT EXISTS eth_usd_prices (
+    id BIGSERIAL PRIMARY KEY,
+    chain VARCHAR(20) NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    price_usd NUMERIC(36, 18) NOT NULL,
+    source VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(chain, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_eth_usd_prices_time ON eth_usd_prices(chain, block_timestamp DESC);
+
+-- Swaps and fees still to be valued in USD
+CREATE INDEX IF NOT EXISTS idx_swaps_unpriced ON swaps(block_number) WHERE price_usd IS NULL;
+CREATE INDEX IF NOT EXISTS idx_fees_unpriced ON fees(block_number) WHERE fee_amount_usd IS NULL;
+
+COMMENT ON COLUMN eth_usd_prices.source IS 'chainlink (ETH/USD aggregator) | pool (Uniswap V3 WETH/USDC slot0)';
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_017', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
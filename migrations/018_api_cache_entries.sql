@@ -0,0 +1,21 @@
+-- Migration 018: Persisted API server caches
+-- Run with: psql $DATABASE_URL -f migrations/018_api_cache_entries.sql
+
+-- The API server writes every market/rewards cache entry through after each
+-- refresh and restores them before it starts listening, so a deploy serves the
+-- last known values (flagged stale) instead of nulls. `data` is the entry as
+-- cached, including its own lastUpdated (ms).
+CREATE TABLE IF NOT EXISTS api_cache_entries (
+    cache VARCHAR(20) NOT NULL,
+    key VARCHAR(100) NOT NULL,
+    data JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (cache, key)
+);
+
+COMMENT ON COLUMN api_cache_entries.cache IS 'market | rewards';
+COMMENT ON COLUMN api_cache_entries.key IS '<chain>:<address>, as in the in-memory cache';
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_018', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
@@ -0,0 +1,10 @@
+-- Migration 019: Room for NFT ownership checkpoint ids
+-- Run with: psql $DATABASE_URL -f migrations/019_indexer_state_id_length.sql
+
+-- `<chain>:nft:<collection address>` is 51 characters on base and 55 on
+-- ethereum, past the original VARCHAR(50)
+ALTER TABLE indexer_state ALTER COLUMN id TYPE VARCHAR(100);
+
+-- Log the migration
+INSERT INTO indexer_state (id, last_block) VALUES ('migration_019', 1)
+ON CONFLICT (id) DO UPDATE SET last_updated = NOW();
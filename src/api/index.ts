@@ -3,7 +3,30 @@ import { serve } from '@hono/node-server';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import 'dotenv/config';
-import { getTokens, getTokenByAddress, getSwapsForToken, getOHLCV, sql } from '../db/index.js';
+import { formatEther } from 'viem';
+import {
+  getTokens,
+  getTokenByAddress,
+  getSwapsForToken,
+  getOHLCV,
+  getLatestReconciliations,
+  getReconciliationHistory,
+  getEthUsdPrices,
+  sql,
+  TOKEN_SORT_COLUMNS,
+  type TokenSort,
+} from '../db/index.js';
+import { CANDLE_INTERVALS, MAX_CHART_CANDLES } from '../indexer/ohlcv.js';
+import {
+  getWalletRewards,
+  buildClaimTransactions,
+  getCollectionNftRewards,
+  MAX_CLAIM_IDS,
+  MAX_NFT_REWARDS_IDS,
+} from '../rewards.js';
+import { resolveFeeWindow, getTokenFeeSplit, getCollectionFeeSplit, getProtocolFeeSplit } from '../revenue.js';
+import { validateChain, type SupportedChain } from '../config.js';
+import { nearestEthUsd } from '../prices.js';
 
 const app = new Hono();
 
@@ -11,6 +34,14 @@ const app = new Hono();
 const VERIFICATION_RECIPIENT = '0x58e510F849e38095375a3e478ad1d719650b8557'.toLowerCase();
 const VERIFICATION_AMOUNT_WEI = BigInt('100000000000000000'); // 0.1 ETH in wei
 
+// NFT id from a JSON number or decimal string; anything else (hex, booleans, null) is rejected
+function parseTokenId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value
+    : typeof value === 'string' && /^\d+$/.test(value) ? Number(value)
+    : NaN;
+  return Number.isSafeInteger(id) && id >= 0 ? id : null;
+}
+
 // Alchemy/RPC helper for verifying transactions
 async function verifyTransaction(txHash: string, chain: string = 'base'): Promise<{
   valid: boolean;
@@ -89,12 +120,18 @@ app.get('/health', (c) => c.json({ status: 'healthy' }));
 
 // GET /tokens - List all tokens
 app.get('/tokens', async (c) => {
-  const sortBy = c.req.query('sort') as 'deployed_at' | 'volume_24h' | 'tvl' || 'deployed_at';
-  const order = c.req.query('order') as 'asc' | 'desc' || 'desc';
+  const sortBy = c.req.query('sort') || 'deployed_at';
+  if (!Object.hasOwn(TOKEN_SORT_COLUMNS, sortBy)) {
+    return c.json({ error: `Invalid sort. Must be one of: ${Object.keys(TOKEN_SORT_COLUMNS).join(', ')}` }, 400);
+  }
+  const order = c.req.query('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    return c.json({ error: 'Invalid order. Must be asc or desc' }, 400);
+  }
   const limit = parseInt(c.req.query('limit') || '50');
   const offset = parseInt(c.req.query('offset') || '0');
 
-  const tokens = await getTokens({ sortBy, order, limit, offset });
+  const tokens = await getTokens({ sortBy: sortBy as TokenSort, order, limit, offset });
   return c.json({ tokens, pagination: { limit, offset } });
 });
 
@@ -109,39 +146,316 @@ app.get('/tokens/:address', async (c) => {
 // GET /tokens/:address/swaps - Recent trades
 app.get('/tokens/:address/swaps', async (c) => {
   const address = c.req.param('address');
+  const currency = c.req.query('currency') || 'eth';
+  if (currency !== 'eth' && currency !== 'usd') {
+    return c.json({ error: 'Invalid currency. Must be eth or usd' }, 400);
+  }
   const limit = parseInt(c.req.query('limit') || '50');
   const swaps = await getSwapsForToken(address, limit);
-  return c.json({ swaps });
+  if (currency === 'eth' || swaps.length === 0) return c.json({ currency, swaps });
+
+  // Trade size and price at the ETH/USD price of each swap's time
+  const token = await getTokenByAddress(address);
+  const times = swaps.map(s => new Date(s.block_timestamp).getTime());
+  const samples = await getEthUsdPrices(
+    token?.chain || 'base',
+    new Date(Math.min(...times)),
+    new Date(Math.max(...times))
+  );
+  return c.json({
+    currency,
+    swaps: swaps.map(swap => {
+      const ethUsd = nearestEthUsd(samples, new Date(swap.block_timestamp))?.priceUsd ?? null;
+      return {
+        ...swap,
+        price_usd: swap.price_usd ?? (ethUsd !== null ? parseFloat(swap.price_eth) * ethUsd : null),
+        amount_usd: ethUsd !== null && swap.amount_in_eth
+          ? parseFloat(formatEther(BigInt(swap.amount_in_eth))) * ethUsd
+          : null,
+      };
+    }),
+  });
 });
 
-// GET /tokens/:address/chart - OHLCV data
+// GET /tokens/:address/chart - OHLCV data (currency=usd: each candle at its time's ETH/USD price)
 app.get('/tokens/:address/chart', async (c) => {
   const address = c.req.param('address');
   const interval = c.req.query('interval') || '1h';
-  const limit = parseInt(c.req.query('limit') || '100');
-  const candles = await getOHLCV(address, interval, limit);
-  return c.json({ candles: candles.reverse() }); // oldest first for charts
+  if (!Object.hasOwn(CANDLE_INTERVALS, interval)) {
+    return c.json({ error: `Invalid interval. Must be one of: ${Object.keys(CANDLE_INTERVALS).join(', ')}` }, 400);
+  }
+  const currency = c.req.query('currency') || 'eth';
+  if (currency !== 'eth' && currency !== 'usd') {
+    return c.json({ error: 'Invalid currency. Must be eth or usd' }, 400);
+  }
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '100') || 100, 1), MAX_CHART_CANDLES);
+  const candles = (await getOHLCV(address, interval, limit)).reverse(); // oldest first for charts
+  if (currency === 'eth' || candles.length === 0) return c.json({ currency, candles });
+
+  const token = await getTokenByAddress(address);
+  const samples = await getEthUsdPrices(
+    token?.chain || 'base',
+    new Date(candles[0].bucket_start),
+    new Date(candles[candles.length - 1].bucket_start)
+  );
+  if (samples.length === 0) {
+    return c.json({ error: 'No ETH/USD price history recorded yet' }, 503);
+  }
+
+  return c.json({
+    currency,
+    candles: candles.map(candle => {
+      const ethUsd = nearestEthUsd(samples, new Date(candle.bucket_start))!.priceUsd;
+      return {
+        ...candle,
+        open: String(parseFloat(candle.open) * ethUsd),
+        high: String(parseFloat(candle.high) * ethUsd),
+        low: String(parseFloat(candle.low) * ethUsd),
+        close: String(parseFloat(candle.close) * ethUsd),
+        volume: String(parseFloat(formatEther(BigInt(candle.volume))) * ethUsd),
+      };
+    }),
+  });
+});
+
+// GET /prices/eth-usd - Reference ETH/USD price at a time (default now), optionally converting a wei amount
+app.get('/prices/eth-usd', async (c) => {
+  const chain = c.req.query('chain') || 'base';
+  if (!validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+  const at = c.req.query('at') ? new Date(c.req.query('at')!) : new Date();
+  if (isNaN(at.getTime())) {
+    return c.json({ error: 'Invalid at date' }, 400);
+  }
+  const amount = c.req.query('amount');
+  if (amount !== undefined && !/^\d+$/.test(amount)) {
+    return c.json({ error: 'amount must be an integer wei value' }, 400);
+  }
+
+  try {
+    const sample = nearestEthUsd(await getEthUsdPrices(chain, at, at), at);
+    if (!sample) return c.json({ error: 'No ETH/USD price recorded' }, 404);
+
+    return c.json({
+      chain: chain as SupportedChain,
+      at: at.toISOString(),
+      priceUsd: sample.priceUsd,
+      sample: {
+        blockNumber: sample.blockNumber.toString(),
+        blockTimestamp: sample.blockTimestamp.toISOString(),
+        source: sample.source,
+      },
+      ...(amount !== undefined ? {
+        amountWei: amount,
+        amountEth: formatEther(BigInt(amount)),
+        amountUsd: parseFloat(formatEther(BigInt(amount))) * sample.priceUsd,
+      } : {}),
+    });
+  } catch (e: any) {
+    console.error('ETH/USD price error:', e);
+    return c.json({ error: e.message || 'Failed to load ETH/USD price' }, 500);
+  }
 });
 
-// GET /rewards/:wallet - Pending rewards for wallet's NFTs
+// GET /rewards/:wallet - Pending rewards for wallet's NFTs, across all chains
 app.get('/rewards/:wallet', async (c) => {
   const wallet = c.req.param('wallet').toLowerCase();
-  
-  // This requires integrating with NFT ownership data
-  // For now, return structure. Need to query NFT contracts.
-  const rewards = await sql`
-    SELECT t.address as token_address, t.symbol, t.nft_collection,
-           ts.pending_fees
-    FROM tokens t
-    JOIN token_stats ts ON t.address = ts.token_address
-    WHERE ts.pending_fees != '0'
-  `;
-  
-  return c.json({
-    wallet,
-    rewards,
-    note: 'Full implementation requires NFT ownership check'
-  });
+  if (!/^0x[0-9a-f]{40}$/.test(wallet)) {
+    return c.json({ error: 'Invalid wallet address' }, 400);
+  }
+
+  try {
+    return c.json(await getWalletRewards(wallet));
+  } catch (e: any) {
+    console.error('Rewards error:', e);
+    return c.json({ error: e.message || 'Failed to load rewards' }, 500);
+  }
+});
+
+// POST /rewards/claim-tx - Ready-to-sign FeeDistributor claims for a wallet's NFTs
+app.post('/rewards/claim-tx', async (c) => {
+  let body: any;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const wallet = String(body?.wallet || '').toLowerCase();
+  const tokenAddress = String(body?.tokenAddress || '').toLowerCase();
+  const tokenIds = body?.tokenIds;
+
+  if (!/^0x[0-9a-f]{40}$/.test(wallet)) {
+    return c.json({ error: 'Invalid wallet address' }, 400);
+  }
+  if (!/^0x[0-9a-f]{40}$/.test(tokenAddress)) {
+    return c.json({ error: 'Invalid token address' }, 400);
+  }
+  if (!Array.isArray(tokenIds) || tokenIds.length === 0) {
+    return c.json({ error: 'tokenIds must be a non-empty array' }, 400);
+  }
+  if (tokenIds.length > MAX_CLAIM_IDS) {
+    return c.json({ error: `At most ${MAX_CLAIM_IDS} tokenIds per request` }, 400);
+  }
+  const ids = tokenIds.map(parseTokenId);
+  if (ids.some(id => id === null)) {
+    return c.json({ error: 'tokenIds must be non-negative integers' }, 400);
+  }
+
+  try {
+    const result = await buildClaimTransactions(wallet, tokenAddress, ids as number[]);
+    if ('error' in result) {
+      return c.json({ error: result.error, ...result.details }, result.status);
+    }
+    return c.json(result);
+  } catch (e: any) {
+    console.error('Claim tx error:', e);
+    return c.json({ error: e.message || 'Failed to build claim transactions' }, 500);
+  }
+});
+
+// GET /collections/:address/nfts/rewards?ids=1,2,3 - Unclaimed rewards of many NFTs
+app.get('/collections/:address/nfts/rewards', async (c) => {
+  const collection = c.req.param('address').toLowerCase();
+  const chain = c.req.query('chain') || 'base';
+  if (!/^0x[0-9a-f]{40}$/.test(collection)) {
+    return c.json({ error: 'Invalid collection address' }, 400);
+  }
+  if (!validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+
+  const ids = [...new Set((c.req.query('ids') || '').split(',').filter(Boolean).map(parseTokenId))];
+  if (ids.length === 0) {
+    return c.json({ error: 'ids must list at least one token id' }, 400);
+  }
+  if (ids.length > MAX_NFT_REWARDS_IDS) {
+    return c.json({ error: `At most ${MAX_NFT_REWARDS_IDS} ids per request` }, 400);
+  }
+  if (ids.some(id => id === null)) {
+    return c.json({ error: 'ids must be non-negative integers' }, 400);
+  }
+
+  try {
+    return c.json({ collection, chain, ...(await getCollectionNftRewards(chain, collection, ids as number[])) });
+  } catch (e: any) {
+    console.error('NFT rewards error:', e);
+    return c.json({ error: e.message || 'Failed to load NFT rewards' }, 500);
+  }
+});
+
+// GET /collections/:address/nfts/:tokenId/rewards - Unclaimed rewards of one NFT
+app.get('/collections/:address/nfts/:tokenId/rewards', async (c) => {
+  const collection = c.req.param('address').toLowerCase();
+  const chain = c.req.query('chain') || 'base';
+  const tokenId = Number(c.req.param('tokenId'));
+  if (!/^0x[0-9a-f]{40}$/.test(collection)) {
+    return c.json({ error: 'Invalid collection address' }, 400);
+  }
+  if (!validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+  if (!Number.isSafeInteger(tokenId) || tokenId < 0) {
+    return c.json({ error: 'Invalid token id' }, 400);
+  }
+
+  try {
+    const { blockNumber, nfts } = await getCollectionNftRewards(chain, collection, [tokenId]);
+    return c.json({ collection, chain, blockNumber, ...nfts[0] });
+  } catch (e: any) {
+    console.error('NFT rewards error:', e);
+    return c.json({ error: e.message || 'Failed to load NFT rewards' }, 500);
+  }
+});
+
+// GET /fees/split - Protocol-wide fee split (holders/treasury/deployer), per chain and token
+app.get('/fees/split', async (c) => {
+  const chain = c.req.query('chain');
+  if (chain && !validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+  const window = resolveFeeWindow({ window: c.req.query('window'), from: c.req.query('from'), to: c.req.query('to') });
+  if ('error' in window) return c.json({ error: window.error }, 400);
+
+  try {
+    return c.json(await getProtocolFeeSplit(window, validateChain(chain) ? chain : undefined));
+  } catch (e: any) {
+    console.error('Fee split error:', e);
+    return c.json({ error: e.message || 'Failed to load fee split' }, 500);
+  }
+});
+
+// GET /fees/reconciliation - Latest FeeDistributor check per distributor, insolvent ones first
+app.get('/fees/reconciliation', async (c) => {
+  const chain = c.req.query('chain');
+  if (chain && !validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+
+  try {
+    const rank = { insolvent: 0, mismatch: 1, ok: 2 };
+    const distributors = (await getLatestReconciliations(chain))
+      .sort((a, b) => rank[a.status] - rank[b.status])
+      .map(r => ({ ...r, blockNumber: r.blockNumber.toString() }));
+    return c.json({
+      distributors,
+      alerts: distributors.filter(r => r.status === 'insolvent').length,
+      discrepancies: distributors.filter(r => r.status !== 'ok').length,
+    });
+  } catch (e: any) {
+    console.error('Reconciliation error:', e);
+    return c.json({ error: e.message || 'Failed to load reconciliation' }, 500);
+  }
+});
+
+// GET /fees/reconciliation/:distributor - Past checks of one distributor
+app.get('/fees/reconciliation/:distributor', async (c) => {
+  const chain = c.req.query('chain') || 'base';
+  if (!validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+  const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 500);
+
+  try {
+    const history = await getReconciliationHistory(chain, c.req.param('distributor'), limit);
+    return c.json({ history: history.map(r => ({ ...r, blockNumber: r.blockNumber.toString() })) });
+  } catch (e: any) {
+    console.error('Reconciliation error:', e);
+    return c.json({ error: e.message || 'Failed to load reconciliation' }, 500);
+  }
+});
+
+// GET /tokens/:address/fees/split - Where one token's fees went
+app.get('/tokens/:address/fees/split', async (c) => {
+  const window = resolveFeeWindow({ window: c.req.query('window'), from: c.req.query('from'), to: c.req.query('to') });
+  if ('error' in window) return c.json({ error: window.error }, 400);
+
+  try {
+    const report = await getTokenFeeSplit(c.req.param('address'), window);
+    if (!report) return c.json({ error: 'Token not found' }, 404);
+    return c.json(report);
+  } catch (e: any) {
+    console.error('Fee split error:', e);
+    return c.json({ error: e.message || 'Failed to load fee split' }, 500);
+  }
+});
+
+// GET /collections/:address/fees/split - Fees of every token paying a collection's holders
+app.get('/collections/:address/fees/split', async (c) => {
+  const chain = c.req.query('chain') || 'base';
+  if (!validateChain(chain)) {
+    return c.json({ error: 'Invalid chain. Must be base or ethereum' }, 400);
+  }
+  const window = resolveFeeWindow({ window: c.req.query('window'), from: c.req.query('from'), to: c.req.query('to') });
+  if ('error' in window) return c.json({ error: window.error }, 400);
+
+  try {
+    return c.json(await getCollectionFeeSplit(c.req.param('address'), chain, window));
+  } catch (e: any) {
+    console.error('Fee split error:', e);
+    return c.json({ error: e.message || 'Failed to load fee split' }, 500);
+  }
 });
 
 // GET /stats - Global stats
@@ -12,6 +12,11 @@ export interface ChainConfig {
   name: string;
   rpcEnvKey: string;
   
+  // Reorg safety: blocks behind head before indexing, and how many recent
+  // blocks keep their hashes for reorg detection (roughly until finality)
+  confirmations: number;
+  reorgWindow: number;
+  
   // cc0strategy contracts
   factory: string | null;
   hook: string | null;
@@ -21,6 +26,7 @@ export interface ChainConfig {
   
   // Uniswap V4 contracts
   poolManager: string;
+  stateView: string;
   universalRouter: string;
   positionManager: string;
   permit2: string;
@@ -28,6 +34,10 @@ export interface ChainConfig {
   
   // Stablecoins
   usdc: string;
+  
+  // ETH/USD reference: Chainlink aggregator, Uniswap V3 WETH/USDC pool as fallback
+  ethUsdFeed: string;
+  wethUsdcPool: string;
 }
 
 // USDC addresses (Circle native)
@@ -48,6 +58,8 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     chainId: 8453,
     name: 'Base Mainnet',
     rpcEnvKey: 'BASE_RPC_URL',
+    confirmations: 5,
+    reorgWindow: 900,
     
     // cc0strategy contracts (LIVE)
     factory: '0xDbbC0A64fFe2a23b4543b0731CF61ef0d5d4E265',
@@ -58,17 +70,24 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     
     // Uniswap V4 contracts
     poolManager: '0x498581fF718922c3f8e6A244956aF099B2652b2b',
+    stateView: '0xA3c0c9b65baD0b08107Aa264b0f3dB444b867A71',
     universalRouter: '0x6fF5693b99212Da76ad316178A184AB56D299b43',
     positionManager: '0x7C5f5A4bBd8fD63184577525326123B519429bDc',
     permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
     weth: '0x4200000000000000000000000000000000000006',
     usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    
+    // ETH/USD reference
+    ethUsdFeed: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    wethUsdcPool: '0xd0b53D9277642d899DF5C87A3966A349A798F224',  // 0.05%
   },
   
   ethereum: {
     chainId: 1,
     name: 'Ethereum Mainnet',
     rpcEnvKey: 'ETH_RPC_URL',
+    confirmations: 3,
+    reorgWindow: 96,
     
     // cc0strategy contracts (REDEPLOYED 2026-02-24 v2 - fully configured)
     factory: '0x1dc68bc05ecb132059fb45b281dbfa92b6fab610',
@@ -79,39 +98,112 @@ export const CHAIN_CONFIGS: Record<SupportedChain, ChainConfig> = {
     
     // Uniswap V4 contracts
     poolManager: '0x000000000004444c5dc75cB358380D2e3dE08A90',
+    stateView: '0x7fFE42C4a5DEeA5b0feC41C94C136Cf115597227',
     universalRouter: '0x66a9893cC07D91D95644AEDD05D03f95e1dba8Af',
     positionManager: '0xbd216513d74c8cf14cf4747e6aaa6420ff64ee9e',
     permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
     weth: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
     usdc: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    
+    // ETH/USD reference
+    ethUsdFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    wethUsdcPool: '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640',  // 0.05%
   },
 };
 
 /**
- * Events to index (for future event indexing)
+ * cc0strategy protocol generations
+ *
+ * CHAIN_CONFIGS always holds the current generation. Older generations stay
+ * here so the indexer can keep scanning their factories and tokens deployed
+ * through them keep resolving to their own hook / FeeDistributor.
+ */
+export type ProtocolVersion = 'v1' | 'v2';
+
+export const LATEST_PROTOCOL_VERSION: ProtocolVersion = 'v2';
+
+export interface ContractDeployment {
+  version: ProtocolVersion;
+  factory: string;
+  hook: string;
+  feeDistributor: string;
+  lpLocker: string;
+  // Block range the factory is scanned over (endBlock null = still live)
+  startBlock: number;
+  endBlock: number | null;
+}
+
+export const CONTRACT_VERSIONS: Record<SupportedChain, ContractDeployment[]> = {
+  base: [
+    {
+      version: 'v1',
+      factory: '0x70b17db500Ce1746BB34f908140d0279C183f3eb',
+      hook: '0x18aD8c9b72D33E69d8f02fDA61e3c7fAe4e728cc',
+      feeDistributor: '0x9Ce2AB2769CcB547aAcE963ea4493001275CD557',
+      lpLocker: '0x45e1D9bb68E514565710DEaf2567B73EF86638e0',
+      startBlock: 26700000,
+      endBlock: null,
+    },
+    {
+      version: 'v2',
+      factory: CHAIN_CONFIGS.base.factory!,
+      hook: CHAIN_CONFIGS.base.hook!,
+      feeDistributor: CHAIN_CONFIGS.base.feeDistributor!,
+      lpLocker: CHAIN_CONFIGS.base.lpLocker!,
+      startBlock: 26700000,
+      endBlock: null,
+    },
+  ],
+  ethereum: [
+    {
+      version: 'v2',
+      factory: CHAIN_CONFIGS.ethereum.factory!,
+      hook: CHAIN_CONFIGS.ethereum.hook!,
+      feeDistributor: CHAIN_CONFIGS.ethereum.feeDistributor!,
+      lpLocker: CHAIN_CONFIGS.ethereum.lpLocker!,
+      startBlock: 24460000,
+      endBlock: null,
+    },
+  ],
+};
+
+/**
+ * Events indexed from cc0strategy contracts
  */
 export const INDEXED_EVENTS = {
   factory: [
     {
       name: 'TokenDeployed',
-      signature: 'TokenDeployed(address,address,address)',
-      topic: '0x...',
+      signature: 'TokenDeployed(address,address,bytes32,address)',
+      topic: '0xb55c1e806314817ad210a5d7b18404d946ba5092b127eb8d4c945cf6f10819e4',
     },
   ],
   feeDistributor: [
     {
       name: 'FeesReceived',
       signature: 'FeesReceived(address,uint256)',
-      topic: '0x...',
+      topic: '0x2ccfc58c2cef4ee590b5f16be0548cc54afc12e1c66a67b362b7d640fd16bb2d',
     },
     {
       name: 'FeesClaimed', 
       signature: 'FeesClaimed(address,address,uint256[],uint256)',
-      topic: '0x...',
+      topic: '0xa1b47408870305dfd340e9118f94537a4f483bd84fd38e4bbf122af6d5808512',
     },
   ],
 };
 
+/**
+ * FeeDistributor split of every fee it receives (basis points)
+ */
+export const FEE_SPLIT_BPS = {
+  holders: 8000,
+  treasury: 1000,
+  deployer: 1000,
+} as const;
+
+// Fees and claims are paid in native ETH
+export const NATIVE_ETH = '0x0000000000000000000000000000000000000000';
+
 /**
  * Get chain config by name
  */
@@ -143,6 +235,34 @@ export function getActiveChains(): SupportedChain[] {
   return (Object.keys(CHAIN_CONFIGS) as SupportedChain[]).filter(isChainActive);
 }
 
+/**
+ * Get all protocol generations deployed on a chain (oldest first)
+ */
+export function getContractVersions(chain: SupportedChain): ContractDeployment[] {
+  return CONTRACT_VERSIONS[chain] || [];
+}
+
+/**
+ * Get the contracts for a protocol version, falling back to the latest one
+ * (tokens indexed before versions were tracked have no version recorded)
+ */
+export function getContractDeployment(
+  chain: SupportedChain,
+  version?: string | null
+): ContractDeployment | null {
+  const versions = getContractVersions(chain);
+  return versions.find(v => v.version === version)
+    || versions.find(v => v.version === LATEST_PROTOCOL_VERSION)
+    || null;
+}
+
+/**
+ * Get the FeeDistributor a token pays into, based on its protocol version
+ */
+export function getFeeDistributor(chain: SupportedChain, version?: string | null): string | null {
+  return getContractDeployment(chain, version)?.feeDistributor || CHAIN_CONFIGS[chain].feeDistributor;
+}
+
 /**
  * Validate chain parameter from API
  */
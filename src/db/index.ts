@@ -1,5 +1,17 @@
 import postgres from 'postgres';
-import type { Token, Swap, Fee, Claim, OHLCV, IndexerState } from '../types/index.js';
+import type {
+  Token,
+  Swap,
+  Fee,
+  Claim,
+  OHLCV,
+  IndexerState,
+  TokenStats,
+  EnrichmentStep,
+  NftTransfer,
+  DistributorReconciliation,
+  EthUsdPrice,
+} from '../types/index.js';
 
 const DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/cc0strategy';
 
@@ -9,37 +21,86 @@ export const sql = postgres(DATABASE_URL, {
   connect_timeout: 10,
 });
 
+// pool_id is stored as raw bytes (BYTEA)
+export function poolIdToBuffer(poolId: string | null | undefined): Buffer | null {
+  if (!poolId || !poolId.startsWith('0x') || poolId.length < 4) return null;
+  return Buffer.from(poolId.slice(2), 'hex');
+}
+
+// Rows written before pool ids were stored as bytes hold the hex string's ASCII
+export function poolIdToHex(value: Buffer | string | null | undefined): `0x${string}` | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value.startsWith('0x') ? value.toLowerCase() as `0x${string}` : null;
+  const ascii = value.toString('utf-8');
+  if (ascii.startsWith('0x') && ascii.length === 66) return ascii.toLowerCase() as `0x${string}`;
+  return `0x${value.toString('hex')}`;
+}
+
 export async function insertToken(token: Omit<Token, 'id'>) {
   const result = await sql`
     INSERT INTO tokens (
-      address, name, symbol, decimals, nft_collection, nft_collection_name,
+      address, chain, name, symbol, decimals, nft_collection, nft_collection_name,
       pool_address, pool_id, deployer, deployed_at, deploy_tx_hash, deploy_block,
-      description, image_url, website_url, twitter_url
+      description, image_url, website_url, twitter_url, protocol_version
     ) VALUES (
-      ${token.address}, ${token.name}, ${token.symbol}, ${token.decimals},
+      ${token.address}, ${token.chain}, ${token.name}, ${token.symbol}, ${token.decimals},
       ${token.nftCollection}, ${token.nftCollectionName || null},
-      ${token.poolAddress || null}, ${token.poolId || null},
+      ${token.poolAddress || null}, ${poolIdToBuffer(token.poolId)},
       ${token.deployer}, ${token.deployedAt}, ${token.deployTxHash}, ${token.deployBlock.toString()},
       ${token.description || null}, ${token.imageUrl || null},
-      ${token.websiteUrl || null}, ${token.twitterUrl || null}
+      ${token.websiteUrl || null}, ${token.twitterUrl || null}, ${token.protocolVersion || null}
     )
     RETURNING *
   `;
   return result[0];
 }
 
+export async function tagTokenVersion(address: string, version: string): Promise<void> {
+  await sql`
+    UPDATE tokens SET protocol_version = ${version}
+    WHERE address = ${address.toLowerCase()} AND protocol_version IS NULL
+  `;
+}
+
+// token_stats amounts are wei strings; compare them as numbers, not text
+export const TOKEN_SORT_COLUMNS = {
+  deployed_at: 't.deployed_at',
+  volume_24h: 'ts.volume_24h::numeric',
+  tvl: 'ts.tvl::numeric',
+} as const;
+
+export type TokenSort = keyof typeof TOKEN_SORT_COLUMNS;
+
+// On-chain facts from the TokenDeployed event; metadata and curated fields are left alone
+export async function updateTokenDeployment(token: Omit<Token, 'id'>): Promise<void> {
+  await sql`
+    UPDATE tokens SET
+      chain = ${token.chain},
+      nft_collection = ${token.nftCollection},
+      pool_id = ${poolIdToBuffer(token.poolId)},
+      deployer = ${token.deployer},
+      deployed_at = ${token.deployedAt},
+      deploy_tx_hash = ${token.deployTxHash},
+      deploy_block = ${token.deployBlock.toString()},
+      protocol_version = ${token.protocolVersion || null}
+    WHERE address = ${token.address}
+  `;
+}
+
 export async function getTokens(options: {
-  sortBy?: 'deployed_at' | 'volume_24h' | 'tvl';
+  sortBy?: TokenSort;
   order?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
 } = {}) {
   const { sortBy = 'deployed_at', order = 'desc', limit = 50, offset = 0 } = options;
+  const column = Object.hasOwn(TOKEN_SORT_COLUMNS, sortBy) ? TOKEN_SORT_COLUMNS[sortBy] : TOKEN_SORT_COLUMNS.deployed_at;
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
   return sql`
     SELECT t.*, ts.*
     FROM tokens t
     LEFT JOIN token_stats ts ON t.address = ts.token_address
-    ORDER BY ${sql(sortBy)} ${sql.unsafe(order.toUpperCase())}
+    ORDER BY ${sql.unsafe(column)} ${sql.unsafe(direction)} NULLS LAST, t.deployed_at DESC
     LIMIT ${limit} OFFSET ${offset}
   `;
 }
@@ -54,15 +115,17 @@ export async function getTokenByAddress(address: string) {
   return result[0] || null;
 }
 
-export async function insertSwap(swap: Omit<Swap, 'id'>) {
-  const result = await sql`
+export async function insertSwap(swap: Omit<Swap, 'id'>, db = sql) {
+  const result = await db`
     INSERT INTO swaps (
       token_address, trader, is_buy, amount_in, amount_out, amount_in_eth,
-      price_eth, price_usd, tx_hash, block_number, block_timestamp, log_index
+      price_eth, price_usd, sqrt_price_x96, liquidity, tick,
+      tx_hash, block_number, block_timestamp, log_index
     ) VALUES (
       ${swap.tokenAddress}, ${swap.trader}, ${swap.isBuy},
       ${swap.amountIn}, ${swap.amountOut}, ${swap.amountInEth || null},
       ${swap.priceEth}, ${swap.priceUsd || null},
+      ${swap.sqrtPriceX96 || null}, ${swap.liquidity || null}, ${swap.tick ?? null},
       ${swap.txHash}, ${swap.blockNumber.toString()}, ${swap.blockTimestamp}, ${swap.logIndex}
     )
     ON CONFLICT (tx_hash, log_index) DO NOTHING
@@ -71,6 +134,21 @@ export async function insertSwap(swap: Omit<Swap, 'id'>) {
   return result[0];
 }
 
+export async function getPoolTokens(chain: string) {
+  const rows = await sql`
+    SELECT address, decimals, pool_id, deploy_block FROM tokens
+    WHERE chain = ${chain} AND pool_id IS NOT NULL
+  `;
+  return rows
+    .map(row => ({
+      address: row.address as string,
+      decimals: row.decimals as number,
+      poolId: poolIdToHex(row.pool_id),
+      deployBlock: BigInt(row.deploy_block as string),
+    }))
+    .filter(row => row.poolId !== null) as { address: string; decimals: number; poolId: `0x${string}`; deployBlock: bigint }[];
+}
+
 export async function getSwapsForToken(tokenAddress: string, limit = 50) {
   return sql`
     SELECT * FROM swaps
@@ -80,8 +158,8 @@ export async function getSwapsForToken(tokenAddress: string, limit = 50) {
   `;
 }
 
-export async function insertFee(fee: Omit<Fee, 'id'>) {
-  const result = await sql`
+export async function insertFee(fee: Omit<Fee, 'id'>, db = sql) {
+  const result = await db`
     INSERT INTO fees (
       token_address, fee_amount, fee_token, fee_amount_usd,
       total_nfts, fee_per_nft, tx_hash, block_number, block_timestamp, log_index
@@ -96,8 +174,8 @@ export async function insertFee(fee: Omit<Fee, 'id'>) {
   return result[0];
 }
 
-export async function insertClaim(claim: Omit<Claim, 'id'>) {
-  const result = await sql`
+export async function insertClaim(claim: Omit<Claim, 'id'>, db = sql) {
+  const result = await db`
     INSERT INTO claims (
       token_address, claimer, token_ids, amount, claim_token,
       tx_hash, block_number, block_timestamp, log_index
@@ -121,31 +199,855 @@ export async function getOHLCV(tokenAddress: string, interval: string, limit = 1
   `;
 }
 
+// Tokens on a chain with swaps after a block, and where their new swaps start
+export async function getTokensWithSwapsAfter(chain: string, afterBlock: bigint) {
+  const rows = await sql`
+    SELECT s.token_address, MIN(s.block_timestamp) AS first_timestamp, MAX(s.block_number) AS last_block
+    FROM swaps s
+    JOIN tokens t ON t.address = s.token_address
+    WHERE t.chain = ${chain} AND s.block_number > ${afterBlock.toString()}
+    GROUP BY s.token_address
+  `;
+  return rows.map(row => ({
+    tokenAddress: row.token_address as string,
+    firstTimestamp: row.first_timestamp as Date,
+    lastBlock: BigInt(row.last_block as string),
+  }));
+}
+
+export async function getSwapPricesSince(tokenAddress: string, since: Date | null) {
+  const rows = await sql`
+    SELECT price_eth, amount_in_eth, block_timestamp FROM swaps
+    WHERE token_address = ${tokenAddress}
+    ${since ? sql`AND block_timestamp >= ${since}` : sql``}
+    ORDER BY block_number ASC, log_index ASC
+  `;
+  return rows.map(row => ({
+    priceEth: row.price_eth as string,
+    amountInEth: row.amount_in_eth as string | null,
+    blockTimestamp: row.block_timestamp as Date,
+  }));
+}
+
+export async function getLastCandleBefore(tokenAddress: string, interval: string, before: Date) {
+  const result = await sql`
+    SELECT bucket_start, close FROM ohlcv
+    WHERE token_address = ${tokenAddress} AND interval = ${interval} AND bucket_start < ${before}
+    ORDER BY bucket_start DESC
+    LIMIT 1
+  `;
+  if (!result[0]) return null;
+  return { bucketStart: result[0].bucket_start as Date, close: result[0].close as string };
+}
+
+export async function upsertCandles(candles: OHLCV[]): Promise<void> {
+  const CHUNK = 1000;
+  for (let i = 0; i < candles.length; i += CHUNK) {
+    const rows = candles.slice(i, i + CHUNK).map(c => ({
+      token_address: c.tokenAddress,
+      interval: c.interval,
+      bucket_start: c.bucketStart,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+      trade_count: c.tradeCount,
+    }));
+    await sql`
+      INSERT INTO ohlcv ${sql(rows, 'token_address', 'interval', 'bucket_start', 'open', 'high', 'low', 'close', 'volume', 'trade_count')}
+      ON CONFLICT (token_address, interval, bucket_start) DO UPDATE SET
+        open = EXCLUDED.open,
+        high = EXCLUDED.high,
+        low = EXCLUDED.low,
+        close = EXCLUDED.close,
+        volume = EXCLUDED.volume,
+        trade_count = EXCLUDED.trade_count
+    `;
+  }
+}
+
+export async function deleteCandles(tokenAddress: string): Promise<void> {
+  await sql`DELETE FROM ohlcv WHERE token_address = ${tokenAddress}`;
+}
+
 export async function getIndexerState(id: string): Promise<IndexerState | null> {
   const result = await sql`SELECT * FROM indexer_state WHERE id = ${id}`;
   if (!result[0]) return null;
   return {
     id: result[0].id as string,
     lastBlock: BigInt(result[0].last_block as string),
-    lastUpdated: result[0].last_updated as Date
+    lastUpdated: result[0].last_updated as Date,
+    batchSize: (result[0].batch_size as number | null) ?? undefined,
   };
 }
 
-export async function updateIndexerState(id: string, lastBlock: bigint): Promise<void> {
-  await sql`UPDATE indexer_state SET last_block = ${lastBlock.toString()}, last_updated = NOW() WHERE id = ${id}`;
+export async function updateIndexerState(id: string, lastBlock: bigint, batchSize?: number): Promise<void> {
+  await sql`
+    INSERT INTO indexer_state (id, last_block, batch_size, last_updated)
+    VALUES (${id}, ${lastBlock.toString()}, ${batchSize ?? null}, NOW())
+    ON CONFLICT (id) DO UPDATE SET
+      last_block = EXCLUDED.last_block,
+      batch_size = COALESCE(EXCLUDED.batch_size, indexer_state.batch_size),
+      last_updated = NOW()
+  `;
+}
+
+export async function recordBlockHashes(chain: string, blocks: { number: bigint; hash: string }[]): Promise<void> {
+  if (blocks.length === 0) return;
+  const rows = blocks.map(b => ({ chain, block_number: b.number.toString(), block_hash: b.hash }));
+  await sql`
+    INSERT INTO indexed_blocks ${sql(rows, 'chain', 'block_number', 'block_hash')}
+    ON CONFLICT (chain, block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash, indexed_at = NOW()
+  `;
+}
+
+export async function getRecentBlockHashes(chain: string, limit: number) {
+  const rows = await sql`
+    SELECT block_number, block_hash FROM indexed_blocks
+    WHERE chain = ${chain}
+    ORDER BY block_number DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(row => ({ number: BigInt(row.block_number as string), hash: row.block_hash as string }));
+}
+
+export async function pruneBlockHashes(chain: string, belowBlock: bigint): Promise<void> {
+  await sql`DELETE FROM indexed_blocks WHERE chain = ${chain} AND block_number < ${belowBlock.toString()}`;
+}
+
+/**
+ * Remove everything a chain indexed after `ancestor` and rewind its checkpoints,
+ * so the jobs re-ingest the canonical blocks on their next run
+ */
+export async function rollbackChain(chain: string, ancestor: bigint) {
+  const block = ancestor.toString();
+  // postgres.js' TransactionSql type loses its call signature under TS 5
+  return sql.begin(async (transaction) => {
+    const tx = transaction as unknown as typeof sql;
+
+    const swaps = await tx`
+      DELETE FROM swaps WHERE block_number > ${block}
+      AND token_address IN (SELECT address FROM tokens WHERE chain = ${chain})
+      RETURNING token_address
+    `;
+    const fees = await tx`
+      DELETE FROM fees WHERE block_number > ${block}
+      AND token_address IN (SELECT address FROM tokens WHERE chain = ${chain})
+    `;
+    const claims = await tx`
+      DELETE FROM claims WHERE block_number > ${block}
+      AND token_address IN (SELECT address FROM tokens WHERE chain = ${chain})
+    `;
+
+    // Orphaned transfers go; owners they set fall back to the latest surviving transfer
+    await tx`DELETE FROM nft_transfers WHERE chain = ${chain} AND block_number > ${block}`;
+    await tx`
+      WITH removed AS (
+        DELETE FROM nft_owners WHERE chain = ${chain} AND last_block > ${block}
+        RETURNING collection, token_id
+      )
+      INSERT INTO nft_owners (chain, collection, token_id, owner, last_block, last_log_index)
+      SELECT DISTINCT ON (t.collection, t.token_id)
+        t.chain, t.collection, t.token_id, t.to_address, t.block_number, t.log_index
+      FROM nft_transfers t
+      JOIN removed r ON r.collection = t.collection AND r.token_id = t.token_id
+      WHERE t.chain = ${chain}
+      ORDER BY t.collection, t.token_id, t.block_number DESC, t.log_index DESC
+    `;
+
+    // Tokens deployed in orphaned blocks go with everything that references them
+    for (const table of ['swaps', 'fees', 'claims', 'ohlcv', 'token_stats']) {
+      await tx`
+        DELETE FROM ${tx(table)}
+        WHERE token_address IN (SELECT address FROM tokens WHERE chain = ${chain} AND deploy_block > ${block})
+      `;
+    }
+    const tokens = await tx`DELETE FROM tokens WHERE chain = ${chain} AND deploy_block > ${block} RETURNING address`;
+
+    await tx`
+      UPDATE indexer_state SET last_block = ${block}, last_updated = NOW()
+      WHERE id LIKE ${chain + ':%'} AND last_block > ${block}
+    `;
+    await tx`DELETE FROM indexed_blocks WHERE chain = ${chain} AND block_number > ${block}`;
+
+    const removedTokens = new Set(tokens.map(t => t.address as string));
+    return {
+      tokens: [...removedTokens],
+      // Surviving tokens that lost swaps (their derived data needs a rebuild)
+      tradedTokens: [...new Set(swaps.map(s => s.token_address as string))].filter(t => !removedTokens.has(t)),
+      swaps: swaps.count,
+      fees: fees.count,
+      claims: claims.count,
+    };
+  });
+}
+
+export async function getChainCheckpoints(chain: string) {
+  const rows = await sql`
+    SELECT * FROM indexer_state WHERE id LIKE ${chain + ':%'} ORDER BY id
+  `;
+  return rows.map(row => ({
+    id: row.id as string,
+    lastBlock: BigInt(row.last_block as string),
+    lastUpdated: row.last_updated as Date,
+    batchSize: (row.batch_size as number | null) ?? undefined,
+  }));
+}
+
+export async function getChainCounts(chain: string) {
+  const [row] = await sql`
+    SELECT
+      (SELECT COUNT(*) FROM tokens WHERE chain = ${chain})::int AS tokens,
+      (SELECT COUNT(*) FROM tokens WHERE chain = ${chain} AND enrichment_status <> 'complete')::int AS unenriched,
+      (SELECT COUNT(*) FROM swaps s JOIN tokens t ON t.address = s.token_address WHERE t.chain = ${chain})::int AS swaps,
+      (SELECT COUNT(*) FROM fees f JOIN tokens t ON t.address = f.token_address WHERE t.chain = ${chain})::int AS fees,
+      (SELECT COUNT(*) FROM claims c JOIN tokens t ON t.address = c.token_address WHERE t.chain = ${chain})::int AS claims
+  `;
+  return row as { tokens: number; unenriched: number; swaps: number; fees: number; claims: number };
+}
+
+/**
+ * Delete a chain's swaps/fees/claims inside [fromBlock, toBlock] (optionally
+ * one token's) before an operator reindex re-ingests the same blocks; run it
+ * in the re-ingest's transaction. Returns the tokens that lost swaps.
+ */
+export async function deleteChainRange(
+  chain: string,
+  fromBlock: bigint,
+  toBlock: bigint,
+  tables: ('swaps' | 'fees' | 'claims')[],
+  token?: string,
+  db = sql
+): Promise<string[]> {
+  const traded = new Set<string>();
+  for (const table of tables) {
+    const rows = await db`
+      DELETE FROM ${db(table)}
+      WHERE block_number BETWEEN ${fromBlock.toString()} AND ${toBlock.toString()}
+      AND token_address IN (SELECT address FROM tokens WHERE chain = ${chain})
+      ${token ? db`AND token_address = ${token}` : db``}
+      RETURNING token_address
+    `;
+    if (table === 'swaps') rows.forEach(r => traded.add(r.token_address as string));
+  }
+  return [...traded];
+}
+
+// Which of `addresses` are indexed tokens on a chain
+export async function getIndexedTokens(chain: string, addresses: string[]): Promise<Set<string>> {
+  if (addresses.length === 0) return new Set();
+  const rows = await sql`
+    SELECT address FROM tokens WHERE chain = ${chain} AND address = ANY(${[...new Set(addresses)]})
+  `;
+  return new Set(rows.map(row => row.address as string));
+}
+
+export async function getTradedTokensInRange(chain: string, fromBlock: bigint, toBlock: bigint): Promise<string[]> {
+  const rows = await sql`
+    SELECT DISTINCT s.token_address FROM swaps s
+    JOIN tokens t ON t.address = s.token_address
+    WHERE t.chain = ${chain} AND s.block_number BETWEEN ${fromBlock.toString()} AND ${toBlock.toString()}
+  `;
+  return rows.map(row => row.token_address as string);
+}
+
+// Tokens with enrichment steps left whose retry time has come
+export async function getTokensToEnrich(chain: string, limit: number) {
+  const rows = await sql`
+    SELECT address, name, symbol, nft_collection, nft_collection_name, collection_id,
+           image_url, enrichment_missing, enrichment_attempts
+    FROM tokens
+    WHERE chain = ${chain} AND enrichment_status <> 'complete'
+    AND (enrichment_next_at IS NULL OR enrichment_next_at <= NOW())
+    ORDER BY enrichment_next_at ASC NULLS FIRST, deployed_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(row => ({
+    address: row.address as string,
+    name: row.name as string,
+    symbol: row.symbol as string,
+    nftCollection: row.nft_collection as string,
+    nftCollectionName: row.nft_collection_name as string | null,
+    collectionId: row.collection_id as number | null,
+    imageUrl: row.image_url as string | null,
+    missing: row.enrichment_missing as EnrichmentStep[] | null,
+    attempts: row.enrichment_attempts as number,
+  }));
+}
+
+export async function updateTokenMetadata(address: string, metadata: { name: string; symbol: string; decimals: number }) {
+  await sql`
+    UPDATE tokens SET name = ${metadata.name}, symbol = ${metadata.symbol}, decimals = ${metadata.decimals}
+    WHERE address = ${address}
+  `;
+}
+
+export async function setTokenCollectionName(address: string, name: string): Promise<void> {
+  await sql`UPDATE tokens SET nft_collection_name = ${name} WHERE address = ${address}`;
+}
+
+export async function getCollection(address: string, chainId: number) {
+  const [row] = await sql`
+    SELECT id, name, image_url FROM collections
+    WHERE address = ${address.toLowerCase()} AND chain_id = ${chainId}
+  `;
+  if (!row) return null;
+  return { id: row.id as number, name: row.name as string, imageUrl: row.image_url as string | null };
+}
+
+// Create the collections row for an NFT contract; an existing row is returned untouched
+export async function findOrCreateCollection(address: string, chainId: number, name: string, totalSupply: number | null) {
+  await sql`
+    INSERT INTO collections (address, chain_id, name, total_supply)
+    VALUES (${address.toLowerCase()}, ${chainId}, ${name}, ${totalSupply})
+    ON CONFLICT (address, chain_id) DO NOTHING
+  `;
+  return (await getCollection(address, chainId))!;
+}
+
+export async function linkTokenCollection(address: string, collectionId: number): Promise<void> {
+  await sql`UPDATE tokens SET collection_id = ${collectionId} WHERE address = ${address}`;
+}
+
+// Only fills an empty image - images set by deployers win
+export async function setDefaultTokenImage(address: string, imageUrl: string): Promise<void> {
+  await sql`UPDATE tokens SET image_url = ${imageUrl} WHERE address = ${address} AND image_url IS NULL`;
 }
 
-export async function updateTokenStats(tokenAddress: string): Promise<void> {
+export async function recordEnrichment(
+  address: string,
+  missing: EnrichmentStep[],
+  error: string | null,
+  nextAttemptAt: Date | null
+): Promise<void> {
+  if (missing.length === 0) {
+    await sql`
+      UPDATE tokens SET
+        enrichment_status = 'complete',
+        enrichment_missing = NULL,
+        enrichment_error = NULL,
+        enrichment_next_at = NULL,
+        enriched_at = NOW()
+      WHERE address = ${address}
+    `;
+    return;
+  }
   await sql`
-    INSERT INTO token_stats (token_address) VALUES (${tokenAddress})
+    UPDATE tokens SET
+      enrichment_status = 'pending',
+      enrichment_missing = ${missing},
+      enrichment_attempts = enrichment_attempts + 1,
+      enrichment_error = ${error},
+      enrichment_next_at = ${nextAttemptAt}
+    WHERE address = ${address}
+  `;
+}
+
+// Strategy tokens whose NFT holders earn rewards
+export async function getRewardTokens() {
+  const rows = await sql`SELECT address, chain, symbol, nft_collection, protocol_version FROM tokens`;
+  return rows.map(row => ({
+    address: row.address as string,
+    chain: row.chain as string,
+    symbol: row.symbol as string,
+    nftCollection: row.nft_collection as string,
+    protocolVersion: row.protocol_version as string | null,
+  }));
+}
+
+// Most recent claim covering each NFT id (ids never claimed are absent)
+export async function getLastClaims(tokenAddress: string, tokenIds: number[]) {
+  const claims = new Map<number, { txHash: string; claimer: string; blockNumber: bigint; blockTimestamp: Date }>();
+  if (tokenIds.length === 0) return claims;
+  const rows = await sql`
+    SELECT DISTINCT ON (id) id, tx_hash, claimer, block_number, block_timestamp
+    FROM claims, unnest(token_ids) AS id
+    WHERE token_address = ${tokenAddress} AND id = ANY(${tokenIds})
+    ORDER BY id, block_number DESC, log_index DESC
+  `;
+  for (const row of rows) {
+    claims.set(Number(row.id), {
+      txHash: row.tx_hash as string,
+      claimer: row.claimer as string,
+      blockNumber: BigInt(row.block_number as string),
+      blockTimestamp: row.block_timestamp as Date,
+    });
+  }
+  return claims;
+}
+
+// Indexed holder share per NFT (wei) received up to and including a block
+export async function getFeePerNftUntil(tokenAddress: string, blockNumber: bigint): Promise<bigint> {
+  const [row] = await sql`
+    SELECT COALESCE(SUM(fee_per_nft::numeric), 0)::text AS total FROM fees
+    WHERE token_address = ${tokenAddress} AND block_number <= ${blockNumber.toString()}
+  `;
+  return BigInt(row.total as string);
+}
+
+// NFT contracts strategy tokens on a chain are linked to
+export async function getLinkedCollections(chain: string) {
+  const rows = await sql`
+    SELECT nft_collection, MIN(deploy_block) AS first_deploy FROM tokens
+    WHERE chain = ${chain} AND nft_collection IS NOT NULL
+    GROUP BY nft_collection
+  `;
+  return rows.map(row => ({
+    address: (row.nft_collection as string).toLowerCase(),
+    firstDeploy: BigInt(row.first_deploy as string),
+  }));
+}
+
+/**
+ * Store transfers and move owners forward. An owner row only changes when the
+ * transfer is newer than the one it was last set from, so replays are harmless.
+ */
+export async function applyNftTransfers(transfers: NftTransfer[]): Promise<number> {
+  if (transfers.length === 0) return 0;
+  let inserted = 0;
+  const CHUNK = 1000;
+
+  for (let i = 0; i < transfers.length; i += CHUNK) {
+    const rows = transfers.slice(i, i + CHUNK).map(t => ({
+      chain: t.chain,
+      collection: t.collection,
+      token_id: t.tokenId,
+      from_address: t.from,
+      to_address: t.to,
+      tx_hash: t.txHash,
+      block_number: t.blockNumber.toString(),
+      block_timestamp: t.blockTimestamp,
+      log_index: t.logIndex,
+    }));
+    const result = await sql`
+      INSERT INTO nft_transfers ${sql(rows, 'chain', 'collection', 'token_id', 'from_address', 'to_address', 'tx_hash', 'block_number', 'block_timestamp', 'log_index')}
+      ON CONFLICT (chain, tx_hash, log_index) DO NOTHING
+    `;
+    inserted += result.count;
+  }
+
+  // Latest transfer per NFT within this batch
+  const latest = new Map<string, NftTransfer>();
+  for (const t of transfers) {
+    const key = `${t.chain}:${t.collection}:${t.tokenId}`;
+    const prev = latest.get(key);
+    if (!prev || t.blockNumber > prev.blockNumber || (t.blockNumber === prev.blockNumber && t.logIndex > prev.logIndex)) {
+      latest.set(key, t);
+    }
+  }
+
+  const owners = [...latest.values()];
+  for (let i = 0; i < owners.length; i += CHUNK) {
+    const rows = owners.slice(i, i + CHUNK).map(t => ({
+      chain: t.chain,
+      collection: t.collection,
+      token_id: t.tokenId,
+      owner: t.to,
+      last_block: t.blockNumber.toString(),
+      last_log_index: t.logIndex,
+    }));
+    await sql`
+      INSERT INTO nft_owners ${sql(rows, 'chain', 'collection', 'token_id', 'owner', 'last_block', 'last_log_index')}
+      ON CONFLICT (chain, collection, token_id) DO UPDATE SET
+        owner = EXCLUDED.owner,
+        last_block = EXCLUDED.last_block,
+        last_log_index = EXCLUDED.last_log_index,
+        updated_at = NOW()
+      WHERE (nft_owners.last_block, nft_owners.last_log_index) < (EXCLUDED.last_block, EXCLUDED.last_log_index)
+    `;
+  }
+
+  return inserted;
+}
+
+// Distinct current owners (burned tokens excluded) into collections.holder_count
+export async function refreshHolderCounts(chain: string, chainId: number, collections: string[]): Promise<void> {
+  if (collections.length === 0) return;
+  await sql`
+    UPDATE collections c SET
+      holder_count = (
+        SELECT COUNT(DISTINCT owner)::int FROM nft_owners o
+        WHERE o.chain = ${chain} AND o.collection = c.address
+        AND o.owner <> '0x0000000000000000000000000000000000000000'
+      ),
+      updated_at = NOW()
+    WHERE c.chain_id = ${chainId} AND c.address = ANY(${collections})
+  `;
+}
+
+// NFT ids a wallet currently holds per collection, from the ownership index
+export async function getOwnedNfts(chain: string, owner: string, collections: string[]): Promise<Map<string, number[]>> {
+  const owned = new Map<string, number[]>(collections.map(c => [c, []]));
+  if (collections.length === 0) return owned;
+  const rows = await sql`
+    SELECT collection, token_id FROM nft_owners
+    WHERE chain = ${chain} AND owner = ${owner.toLowerCase()} AND collection = ANY(${collections})
+    ORDER BY token_id
+  `;
+  for (const row of rows) owned.get(row.collection as string)?.push(Number(row.token_id));
+  return owned;
+}
+
+export async function getStatsTokens(chain: string) {
+  const rows = await sql`SELECT address, decimals, total_supply FROM tokens WHERE chain = ${chain}`;
+  return rows.map(row => ({
+    address: row.address as string,
+    decimals: row.decimals as number,
+    totalSupply: row.total_supply as string | null,
+  }));
+}
+
+export async function setTokenTotalSupply(address: string, totalSupply: string): Promise<void> {
+  await sql`UPDATE tokens SET total_supply = ${totalSupply} WHERE address = ${address}`;
+}
+
+/**
+ * Raw aggregates the token_stats materializer derives its columns from
+ */
+export async function getTokenActivity(tokenAddress: string) {
+  const [row] = await sql`
+    SELECT
+      a.*,
+      latest.price_eth, latest.sqrt_price_x96, latest.liquidity,
+      COALESCE(before_24h.price_eth, first_swap.price_eth) AS price_24h_ago,
+      f.fees_received, f.fees_to_holders, cl.fees_claimed
+    FROM (
+      SELECT
+        COALESCE(SUM(amount_in_eth::numeric) FILTER (WHERE block_timestamp > NOW() - INTERVAL '24 hours'), 0)::text AS volume_24h,
+        COALESCE(SUM(amount_in_eth::numeric) FILTER (WHERE block_timestamp > NOW() - INTERVAL '7 days'), 0)::text AS volume_7d,
+        COALESCE(SUM(amount_in_eth::numeric), 0)::text AS volume_total,
+        COUNT(*) FILTER (WHERE block_timestamp > NOW() - INTERVAL '24 hours')::int AS trades_24h,
+        COUNT(*)::int AS trades_total,
+        COUNT(DISTINCT trader)::int AS unique_traders,
+        MAX(price_eth::numeric)::text AS ath_price_eth,
+        MIN(price_eth::numeric)::text AS atl_price_eth,
+        MAX(block_timestamp) AS last_trade_at
+      FROM swaps WHERE token_address = ${tokenAddress}
+    ) a
+    LEFT JOIN LATERAL (
+      SELECT price_eth, sqrt_price_x96, liquidity FROM swaps
+      WHERE token_address = ${tokenAddress}
+      ORDER BY block_number DESC, log_index DESC LIMIT 1
+    ) latest ON true
+    LEFT JOIN LATERAL (
+      SELECT price_eth FROM swaps
+      WHERE token_address = ${tokenAddress} AND block_timestamp <= NOW() - INTERVAL '24 hours'
+      ORDER BY block_number DESC, log_index DESC LIMIT 1
+    ) before_24h ON true
+    LEFT JOIN LATERAL (
+      SELECT price_eth FROM swaps
+      WHERE token_address = ${tokenAddress}
+      ORDER BY block_number ASC, log_index ASC LIMIT 1
+    ) first_swap ON true
+    CROSS JOIN (
+      SELECT
+        COALESCE(SUM(fee_amount::numeric), 0)::text AS fees_received,
+        COALESCE(SUM(fee_per_nft::numeric * total_nfts), 0)::text AS fees_to_holders
+      FROM fees WHERE token_address = ${tokenAddress}
+    ) f
+    CROSS JOIN (
+      SELECT COALESCE(SUM(amount::numeric), 0)::text AS fees_claimed
+      FROM claims WHERE token_address = ${tokenAddress}
+    ) cl
+  `;
+
+  return {
+    volume24h: row.volume_24h as string,
+    volume7d: row.volume_7d as string,
+    volumeTotal: row.volume_total as string,
+    trades24h: row.trades_24h as number,
+    tradesTotal: row.trades_total as number,
+    uniqueTraders: row.unique_traders as number,
+    athPriceEth: row.ath_price_eth as string | null,
+    atlPriceEth: row.atl_price_eth as string | null,
+    lastTradeAt: row.last_trade_at as Date | null,
+    priceEth: row.price_eth as string | null,
+    price24hAgo: row.price_24h_ago as string | null,
+    sqrtPriceX96: row.sqrt_price_x96 as string | null,
+    liquidity: row.liquidity as string | null,
+    feesReceived: row.fees_received as string,
+    feesToHolders: row.fees_to_holders as string,
+    feesClaimed: row.fees_claimed as string,
+  };
+}
+
+export async function saveTokenStats(stats: Omit<TokenStats, 'lastUpdated'>): Promise<void> {
+  await sql`
+    INSERT INTO token_stats (
+      token_address, volume_24h, volume_7d, volume_total, trades_24h, trades_total,
+      unique_traders, tvl, liquidity_eth, liquidity_token, price_eth, price_usd, price_change_24h,
+      ath_price_eth, atl_price_eth, total_fees_distributed, total_fees_claimed, pending_fees,
+      market_cap_eth, fully_diluted_valuation, last_trade_at, last_updated
+    ) VALUES (
+      ${stats.tokenAddress}, ${stats.volume24h}, ${stats.volume7d}, ${stats.volumeTotal},
+      ${stats.trades24h}, ${stats.tradesTotal}, ${stats.uniqueTraders},
+      ${stats.tvl}, ${stats.liquidityEth}, ${stats.liquidityToken},
+      ${stats.priceEth}, ${stats.priceUsd ?? null}, ${stats.priceChange24h ?? null},
+      ${stats.athPriceEth || null}, ${stats.atlPriceEth || null},
+      ${stats.totalFeesDistributed}, ${stats.totalFeesClaimed}, ${stats.pendingFees},
+      ${stats.marketCapEth || null}, ${stats.fullyDilutedValuation || null},
+      ${stats.lastTradeAt || null}, NOW()
+    )
     ON CONFLICT (token_address) DO UPDATE SET
-      volume_24h = (SELECT COALESCE(SUM(amount_in_eth::numeric), 0)::text FROM swaps WHERE token_address = ${tokenAddress} AND block_timestamp > NOW() - INTERVAL '24 hours'),
-      trades_24h = (SELECT COUNT(*) FROM swaps WHERE token_address = ${tokenAddress} AND block_timestamp > NOW() - INTERVAL '24 hours'),
-      trades_total = (SELECT COUNT(*) FROM swaps WHERE token_address = ${tokenAddress}),
-      total_fees_distributed = (SELECT COALESCE(SUM(fee_amount::numeric), 0)::text FROM fees WHERE token_address = ${tokenAddress}),
-      total_fees_claimed = (SELECT COALESCE(SUM(amount::numeric), 0)::text FROM claims WHERE token_address = ${tokenAddress}),
+      volume_24h = EXCLUDED.volume_24h,
+      volume_7d = EXCLUDED.volume_7d,
+      volume_total = EXCLUDED.volume_total,
+      trades_24h = EXCLUDED.trades_24h,
+      trades_total = EXCLUDED.trades_total,
+      unique_traders = EXCLUDED.unique_traders,
+      tvl = EXCLUDED.tvl,
+      liquidity_eth = EXCLUDED.liquidity_eth,
+      liquidity_token = EXCLUDED.liquidity_token,
+      price_eth = EXCLUDED.price_eth,
+      price_usd = EXCLUDED.price_usd,
+      price_change_24h = EXCLUDED.price_change_24h,
+      ath_price_eth = EXCLUDED.ath_price_eth,
+      atl_price_eth = EXCLUDED.atl_price_eth,
+      total_fees_distributed = EXCLUDED.total_fees_distributed,
+      total_fees_claimed = EXCLUDED.total_fees_claimed,
+      pending_fees = EXCLUDED.pending_fees,
+      market_cap_eth = EXCLUDED.market_cap_eth,
+      fully_diluted_valuation = EXCLUDED.fully_diluted_valuation,
+      last_trade_at = EXCLUDED.last_trade_at,
       last_updated = NOW()
   `;
 }
 
 export default sql;
+
+/**
+ * Fees received per token between two times (either open), optionally limited
+ * to a chain or a set of tokens. Fees already valued in USD at the time they
+ * were received are summed separately from those that weren't.
+ */
+export async function getFeeTotals(filter: {
+  chain?: string;
+  tokens?: string[];
+  from?: Date | null;
+  to?: Date | null;
+}) {
+  if (filter.tokens && filter.tokens.length === 0) return [];
+
+  const rows = await sql`
+    SELECT
+      f.token_address, t.chain, t.symbol, t.deployer, t.nft_collection,
+      COUNT(*)::int AS fees,
+      SUM(f.fee_amount::numeric)::text AS fee_wei,
+      COALESCE(SUM(f.fee_amount::numeric) FILTER (WHERE f.fee_amount_usd IS NOT NULL), 0)::text AS priced_wei,
+      COALESCE(SUM(f.fee_amount_usd), 0)::float8 AS fee_usd
+    FROM fees f
+    JOIN tokens t ON t.address = f.token_address
+    WHERE TRUE
+      ${filter.chain ? sql`AND t.chain = ${filter.chain}` : sql``}
+      ${filter.tokens ? sql`AND f.token_address IN ${sql(filter.tokens)}` : sql``}
+      ${filter.from ? sql`AND f.block_timestamp >= ${filter.from}` : sql``}
+      ${filter.to ? sql`AND f.block_timestamp < ${filter.to}` : sql``}
+    GROUP BY f.token_address, t.chain, t.symbol, t.deployer, t.nft_collection
+  `;
+
+  return rows.map(row => ({
+    tokenAddress: row.token_address as string,
+    chain: row.chain as string,
+    symbol: row.symbol as string,
+    deployer: row.deployer as string,
+    nftCollection: row.nft_collection as string,
+    fees: row.fees as number,
+    feeWei: BigInt(row.fee_wei as string),
+    pricedWei: BigInt(row.priced_wei as string),
+    feeUsd: row.fee_usd as number,
+  }));
+}
+
+// Strategy tokens paying holders of an NFT collection
+export async function getCollectionTokens(collection: string, chain: string) {
+  const rows = await sql`
+    SELECT t.address FROM tokens t
+    LEFT JOIN collections c ON c.id = t.collection_id
+    WHERE t.chain = ${chain}
+      AND (LOWER(t.nft_collection) = ${collection.toLowerCase()} OR LOWER(c.address) = ${collection.toLowerCase()})
+  `;
+  return rows.map(row => row.address as string);
+}
+
+/**
+ * Indexed fees and claims per token up to and including a block (wei)
+ */
+export async function getIndexedDistributorTotals(tokens: string[], blockNumber: bigint) {
+  const totals = new Map<string, { received: bigint; holderFees: bigint; claimed: bigint }>(
+    tokens.map(token => [token, { received: 0n, holderFees: 0n, claimed: 0n }])
+  );
+  if (tokens.length === 0) return totals;
+
+  const fees = await sql`
+    SELECT token_address,
+      SUM(fee_amount::numeric)::text AS received,
+      SUM(fee_per_nft::numeric * total_nfts)::text AS holder_fees
+    FROM fees
+    WHERE token_address IN ${sql(tokens)} AND block_number <= ${blockNumber.toString()}
+    GROUP BY token_address
+  `;
+  const claims = await sql`
+    SELECT token_address, SUM(amount::numeric)::text AS claimed
+    FROM claims
+    WHERE token_address IN ${sql(tokens)} AND block_number <= ${blockNumber.toString()}
+    GROUP BY token_address
+  `;
+
+  for (const row of fees) {
+    const entry = totals.get(row.token_address as string)!;
+    entry.received = BigInt(row.received as string);
+    entry.holderFees = BigInt(row.holder_fees as string);
+  }
+  for (const row of claims) {
+    totals.get(row.token_address as string)!.claimed = BigInt(row.claimed as string);
+  }
+  return totals;
+}
+
+export async function insertReconciliation(result: DistributorReconciliation): Promise<void> {
+  await sql`
+    INSERT INTO distributor_reconciliations (
+      chain, fee_distributor, versions, block_number, token_count,
+      accrued_rewards, fees_received, holder_fees, fees_claimed,
+      eth_balance, weth_balance, owed, shortfall, status, discrepancies
+    ) VALUES (
+      ${result.chain}, ${result.feeDistributor}, ${result.versions}, ${result.blockNumber.toString()}, ${result.tokenCount},
+      ${result.accruedRewards}, ${result.feesReceived}, ${result.holderFees}, ${result.feesClaimed},
+      ${result.ethBalance}, ${result.wethBalance}, ${result.owed}, ${result.shortfall},
+      ${result.status}, ${JSON.stringify(result.discrepancies)}::jsonb
+    )
+  `;
+}
+
+function mapReconciliation(row: postgres.Row): DistributorReconciliation {
+  return {
+    chain: row.chain,
+    feeDistributor: row.fee_distributor,
+    versions: row.versions,
+    blockNumber: BigInt(row.block_number),
+    tokenCount: row.token_count,
+    accruedRewards: row.accrued_rewards,
+    feesReceived: row.fees_received,
+    holderFees: row.holder_fees,
+    feesClaimed: row.fees_claimed,
+    ethBalance: row.eth_balance,
+    wethBalance: row.weth_balance,
+    owed: row.owed,
+    shortfall: row.shortfall,
+    status: row.status,
+    discrepancies: row.discrepancies,
+    checkedAt: row.checked_at,
+  };
+}
+
+// Most recent reconciliation of every distributor, optionally on one chain
+export async function getLatestReconciliations(chain?: string): Promise<DistributorReconciliation[]> {
+  const rows = await sql`
+    SELECT DISTINCT ON (chain, fee_distributor) * FROM distributor_reconciliations
+    ${chain ? sql`WHERE chain = ${chain}` : sql``}
+    ORDER BY chain, fee_distributor, checked_at DESC
+  `;
+  return rows.map(mapReconciliation);
+}
+
+export async function getReconciliationHistory(
+  chain: string,
+  feeDistributor: string,
+  limit: number
+): Promise<DistributorReconciliation[]> {
+  const rows = await sql`
+    SELECT * FROM distributor_reconciliations
+    WHERE chain = ${chain} AND fee_distributor = ${feeDistributor.toLowerCase()}
+    ORDER BY checked_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(mapReconciliation);
+}
+
+export async function insertEthUsdPrice(price: EthUsdPrice) {
+  await sql`
+    INSERT INTO eth_usd_prices (chain, block_number, block_timestamp, price_usd, source)
+    VALUES (
+      ${price.chain}, ${price.blockNumber.toString()}, ${price.blockTimestamp},
+      ${price.priceUsd}, ${price.source}
+    )
+    ON CONFLICT (chain, block_number) DO NOTHING
+  `;
+}
+
+function mapEthUsdPrice(row: postgres.Row): EthUsdPrice {
+  return {
+    chain: row.chain,
+    blockNumber: BigInt(row.block_number),
+    blockTimestamp: row.block_timestamp,
+    priceUsd: parseFloat(row.price_usd),
+    source: row.source,
+  };
+}
+
+export async function getLatestEthUsdPrice(chain: string): Promise<EthUsdPrice | null> {
+  const rows = await sql`
+    SELECT * FROM eth_usd_prices WHERE chain = ${chain}
+    ORDER BY block_timestamp DESC LIMIT 1
+  `;
+  return rows[0] ? mapEthUsdPrice(rows[0]) : null;
+}
+
+// ETH/USD samples covering a time range: those inside it plus the nearest on either side
+export async function getEthUsdPrices(chain: string, from: Date, to: Date): Promise<EthUsdPrice[]> {
+  const rows = await sql`
+    (SELECT * FROM eth_usd_prices WHERE chain = ${chain} AND block_timestamp < ${from}
+      ORDER BY block_timestamp DESC LIMIT 1)
+    UNION ALL
+    (SELECT * FROM eth_usd_prices WHERE chain = ${chain} AND block_timestamp BETWEEN ${from} AND ${to})
+    UNION ALL
+    (SELECT * FROM eth_usd_prices WHERE chain = ${chain} AND block_timestamp > ${to}
+      ORDER BY block_timestamp ASC LIMIT 1)
+    ORDER BY block_timestamp
+  `;
+  return rows.map(mapEthUsdPrice);
+}
+
+// Swaps and fees on a chain without a USD value yet, oldest first
+export async function getUnpricedEvents(chain: string, afterBlock: bigint, limit: number) {
+  const rows = await sql`
+    (SELECT 'swap' AS kind, s.id, s.block_number, s.block_timestamp, s.price_eth AS amount
+      FROM swaps s JOIN tokens t ON t.address = s.token_address
+      WHERE t.chain = ${chain} AND s.price_usd IS NULL AND s.block_number > ${afterBlock.toString()}
+      ORDER BY s.block_number LIMIT ${limit})
+    UNION ALL
+    (SELECT 'fee' AS kind, f.id, f.block_number, f.block_timestamp, f.fee_amount AS amount
+      FROM fees f JOIN tokens t ON t.address = f.token_address
+      WHERE t.chain = ${chain} AND f.fee_amount_usd IS NULL AND f.block_number > ${afterBlock.toString()}
+      ORDER BY f.block_number LIMIT ${limit})
+    ORDER BY block_number
+    LIMIT ${limit}
+  `;
+  return rows.map(row => ({
+    kind: row.kind as 'swap' | 'fee',
+    id: row.id as string,
+    blockNumber: BigInt(row.block_number),
+    blockTimestamp: row.block_timestamp as Date,
+    // ETH per token for swaps, wei for fees
+    amount: row.amount as string,
+  }));
+}
+
+// Store USD values: swaps.price_usd / fees.fee_amount_usd by row id
+export async function setUsdValues(kind: 'swap' | 'fee', values: [string, string][]) {
+  if (values.length === 0) return;
+  if (kind === 'swap') {
+    await sql`
+      UPDATE swaps SET price_usd = v.usd::numeric
+      FROM (VALUES ${sql(values)}) AS v(id, usd)
+      WHERE swaps.id = v.id::uuid
+    `;
+  } else {
+    await sql`
+      UPDATE fees SET fee_amount_usd = v.usd::numeric
+      FROM (VALUES ${sql(values)}) AS v(id, usd)
+      WHERE fees.id = v.id::uuid
+    `;
+  }
+}
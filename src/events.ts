@@ -0,0 +1,112 @@
+// Domain event bus - Postgres LISTEN/NOTIFY between the indexer and the API server
+//
+// The indexer runs as its own process, so anything it discovers is published
+// on one NOTIFY channel; the API server listens and fans events out to
+// Socket.IO. Payloads stay small (NOTIFY caps them at 8000 bytes) - listeners
+// load full rows from the database when they need them.
+import type postgres from 'postgres';
+
+type Sql = ReturnType<typeof postgres>;
+
+export const EVENTS_CHANNEL = 'cc0strategy_events';
+
+export interface NewTokenEvent {
+  type: 'token:new';
+  chain: string;
+  address: string;
+  nftCollection: string;
+}
+
+export interface SwapEventPayload {
+  type: 'swap';
+  chain: string;
+  tokenAddress: string;
+  trader: string;
+  isBuy: boolean;
+  amountIn: string;
+  amountOut: string;
+  amountEth: string | null;
+  priceEth: string;
+  txHash: string;
+  blockNumber: string;
+  blockTimestamp: string;
+  logIndex: number;
+}
+
+export interface FeeReceivedEvent {
+  type: 'fee:received';
+  chain: string;
+  tokenAddress: string;
+  feeAmount: string;
+  feePerNft: string;
+  totalNfts: number;
+  txHash: string;
+  blockNumber: string;
+  blockTimestamp: string;
+  logIndex: number;
+}
+
+export interface ClaimEvent {
+  type: 'claim';
+  chain: string;
+  tokenAddress: string;
+  claimer: string;
+  tokenIds: number[];
+  amount: string;
+  txHash: string;
+  blockNumber: string;
+  blockTimestamp: string;
+  logIndex: number;
+}
+
+export type DomainEvent = NewTokenEvent | SwapEventPayload | FeeReceivedEvent | ClaimEvent;
+
+/**
+ * Stable identity of an event, so a listener can drop the copy published by a
+ * second process (e.g. a token POSTed to the API and found by the indexer)
+ */
+export function eventKey(event: DomainEvent): string {
+  if (event.type === 'token:new') return `${event.type}:${event.address}`;
+  return `${event.type}:${event.txHash}:${event.logIndex}`;
+}
+
+/**
+ * Publish an event to every listening process. Failures are logged, never
+ * thrown - real-time fan-out must not break indexing.
+ */
+export async function publishEvent(sql: Sql, event: DomainEvent): Promise<void> {
+  try {
+    await sql.notify(EVENTS_CHANNEL, JSON.stringify(event));
+  } catch (e: any) {
+    console.warn(`⚠️ Failed to publish ${event.type} event:`, e.message);
+  }
+}
+
+/**
+ * Listen for events on a dedicated connection (postgres.js re-listens after
+ * reconnects). Returns a function that stops listening.
+ */
+export async function subscribeEvents(
+  sql: Sql,
+  handler: (event: DomainEvent) => void | Promise<void>
+): Promise<() => Promise<void>> {
+  const { unlisten } = await sql.listen(
+    EVENTS_CHANNEL,
+    async (payload) => {
+      let event: DomainEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        console.warn(`⚠️ Ignoring malformed event payload: ${payload.slice(0, 100)}`);
+        return;
+      }
+      try {
+        await handler(event);
+      } catch (e: any) {
+        console.error(`Error handling ${event.type} event:`, e.message);
+      }
+    },
+    () => console.log(`📻 Listening for events on ${EVENTS_CHANNEL}`)
+  );
+  return unlisten;
+}
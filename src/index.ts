@@ -14,10 +14,18 @@ import {
   getRpcUrl, 
   isChainActive,
   getActiveChains,
+  getContractVersions,
+  getContractDeployment,
+  getFeeDistributor,
   validateChain 
 } from './config.js';
 import { createMarketplaceRoutes } from './marketplace.js';
 import { initOpenSeaStream, setSocketIoServer, subscribeToCollection, unsubscribeFromCollection, getStreamStatus, onEvent } from './opensea-stream.js';
+import { publishEvent, subscribeEvents, eventKey, type DomainEvent } from './events.js';
+import { getChainClient } from './indexer/chains.js';
+import type { MarketSource, MarketToken, OnchainMarket } from './types/index.js';
+import { fetchMarketQuotes, getProviderHealth, recordServedCounts } from './market-data.js';
+import { getEthUsdPrice } from './prices.js';
 
 // ============================================
 // GLOBAL ERROR HANDLERS - PREVENT CRASH
@@ -49,14 +57,31 @@ process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
 const MARKET_DATA_REFRESH_MS = 60 * 1000;  // 60 seconds
 const REWARDS_REFRESH_MS = 30 * 1000;       // 30 seconds
 const COLLECTION_INFO_REFRESH_MS = 5 * 60 * 1000; // 5 minutes (rarely changes)
+const REWARDS_MULTICALL_CHUNK = 250;        // tokens per Multicall3 eth_call (2 reads each)
+const REWARDS_SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes between persisted snapshots per token
+const REWARDS_HISTORY_WINDOWS = { '24h': 1, '7d': 7, '30d': 30 };  // days
+const MIN_YIELD_DAYS = 1;  // history a window must cover before it is annualized
+// Stale-while-revalidate: entries older than two refresh intervals are served
+// flagged `stale` while a refresh runs; persisted entries past CACHE_MAX_AGE_MS
+// aren't restored at boot
+const MARKET_FRESH_MS = 2 * MARKET_DATA_REFRESH_MS;
+const REWARDS_FRESH_MS = 2 * REWARDS_REFRESH_MS;
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 interface MarketData {
   priceUsd: number;
+  priceEth: number | null;
   priceChange24h: number;
   volume24h: number;
   marketCap: number;
   fdv: number;
   liquidity: number;
+  // Provider the figures above come from (see src/market-data.ts)
+  source: MarketSource;
+  // The token's own V4 pool, read through StateView
+  onchain: OnchainMarket | null;
+  // Provider ETH price vs on-chain, in percent
+  priceDeviationPct: number | null;
   lastUpdated: number;
 }
 
@@ -64,6 +89,8 @@ interface RewardsData {
   totalRewards: string;
   accRewardPerNFT: string;
   nftSupply: string;
+  // Block every value of the refresh was read at
+  blockNumber: string;
   lastUpdated: number;
 }
 
@@ -86,7 +113,17 @@ const rewardsCache: Map<string, RewardsData> = new Map();
 const collectionCache: Map<string, CollectionInfo> = new Map();
 let lastMarketRefresh = 0;
 let lastRewardsRefresh = 0;
+const rewardsSnapshotBlocks: Partial<Record<SupportedChain, string>> = {};
+// Last persisted snapshot per cache key, to skip unchanged values
+const persistedRewards: Map<string, { accRewardPerNFT: string; nftSupply: string; at: number }> = new Map();
 let cacheRefreshInProgress = false;
+let marketRefreshInProgress = false;
+let rewardsRefreshInProgress = false;
+// NFT collections each token pays (cache key -> lowercase addresses on the
+// token's chain): its linked collections row and tokens.nft_collection
+const tokenCollections: Map<string, string[]> = new Map();
+// Bumped on every pushed change; snapshots carry the version they reflect
+let cacheVersion = 0;
 
 // ============================================
 // CONFIGURATION
@@ -299,21 +336,137 @@ async function runMigrations() {
   }
 }
 
-// Run migrations on startup
-runMigrations();
+// Run migrations, then restore the caches before the server starts listening:
+// persisted entries first, rewards snapshots for tokens they don't cover
+await runMigrations();
+await loadPersistedCaches();
+await loadRewardsSnapshots();
 
 // ============================================
 // WEBSOCKET SERVER
 // ============================================
 let io: SocketIOServer | null = null;
 
+// Keys of recently fanned-out events - the same event can arrive from this
+// process and from the indexer via NOTIFY
+const SEEN_EVENTS_MAX = 5000;
+const seenEvents = new Set<string>();
+
+function markEventSeen(key: string): boolean {
+  if (seenEvents.has(key)) return false;
+  seenEvents.add(key);
+  if (seenEvents.size > SEEN_EVENTS_MAX) {
+    seenEvents.delete(seenEvents.values().next().value);
+  }
+  return true;
+}
+
 function emitNewToken(token: any) {
+  if (!markEventSeen(`token:new:${token.address}`)) return;
   if (io) {
     console.log(`📡 Emitting new-token event: ${token.symbol}`);
     io.emit('new-token', token);
   }
 }
 
+// Fan indexer events out to Socket.IO: everything to 'all', token activity
+// also to that token's room (`token:<address>`)
+async function handleDomainEvent(event: DomainEvent) {
+  if (!io) return;
+
+  if (event.type === 'token:new') {
+    if (seenEvents.has(eventKey(event)) || !sql) return;
+    const [token] = await sql`SELECT * FROM tokens WHERE address = ${event.address}`;
+    if (token) emitNewToken(token);
+    return;
+  }
+
+  if (!markEventSeen(eventKey(event))) return;
+  io.to('all').to(`token:${event.tokenAddress}`).emit(event.type, event);
+}
+
+// Fields whose changes are pushed; block numbers and timestamps ride along
+const MARKET_DIFF_FIELDS = ['priceUsd', 'priceEth', 'priceChange24h', 'volume24h', 'marketCap', 'fdv', 'liquidity', 'source', 'priceDeviationPct'] as const;
+const REWARDS_DIFF_FIELDS = ['totalRewards', 'accRewardPerNFT', 'nftSupply'] as const;
+
+// Same matching as GET /collections: collection_id or nft_collection
+async function loadTokenCollections(): Promise<void> {
+  if (!sql) return;
+  const rows = await sql`
+    SELECT t.address, t.chain, t.nft_collection, c.address AS collection_address
+    FROM tokens t
+    LEFT JOIN collections c ON c.id = t.collection_id
+  `;
+  tokenCollections.clear();
+  for (const row of rows) {
+    const addresses = [row.collection_address, row.nft_collection].filter(Boolean).map((a: string) => a.toLowerCase());
+    if (addresses.length > 0) tokenCollections.set(`${row.chain}:${row.address.toLowerCase()}`, [...new Set(addresses)]);
+  }
+}
+
+// Room of one chain's NFT collection, from `<chainId>:<address>` or a bare
+// address (Base, as in the REST API); null for anything else
+function collectionRoom(value: unknown): string | null {
+  const match = typeof value === 'string' ? /^(?:(\d+):)?(0x[0-9a-fA-F]{40})$/.exec(value) : null;
+  if (!match) return null;
+  return `collection:${match[1] ?? CHAIN_CONFIGS.base.chainId}:${match[2].toLowerCase()}`;
+}
+
+function collectionRooms(key: string): string[] {
+  const chain = key.split(':')[0] as SupportedChain;
+  return (tokenCollections.get(key) || []).map(address => `collection:${CHAIN_CONFIGS[chain]?.chainId}:${address}`);
+}
+
+// Push the fields of a cache entry that changed to its token and collection
+// rooms (`market:update` / `rewards:update`)
+function emitCacheUpdate(
+  type: 'market:update' | 'rewards:update',
+  key: string,
+  previous: Record<string, any> | undefined,
+  next: Record<string, any>,
+  fields: readonly string[]
+) {
+  const changes: Record<string, any> = {};
+  for (const field of fields) {
+    if (!previous || previous[field] !== next[field]) changes[field] = next[field];
+  }
+  if (Object.keys(changes).length === 0) return;
+
+  const version = ++cacheVersion;
+  if (!io) return;
+
+  const [chain, tokenAddress] = key.split(':');
+  io.to([`token:${tokenAddress}`, ...collectionRooms(key)]).emit(type, {
+    chain,
+    tokenAddress,
+    collections: tokenCollections.get(key) || [],
+    version,
+    changes,
+    ...(type === 'rewards:update' ? { blockNumber: next.blockNumber } : {}),
+    lastUpdated: next.lastUpdated,
+  });
+}
+
+// Current state of some cache keys, sent when a client joins a room. Diffs
+// with a version at or below `version` are already reflected in it.
+function cacheSnapshot(keys: string[]) {
+  return {
+    version: cacheVersion,
+    tokens: keys.map(key => {
+      const [chain, tokenAddress] = key.split(':');
+      const market = marketCache.get(key);
+      const rewards = rewardsCache.get(key);
+      return {
+        chain,
+        tokenAddress,
+        collections: tokenCollections.get(key) || [],
+        market: market ? { ...market, ...cacheAge(market.lastUpdated, MARKET_FRESH_MS) } : null,
+        rewards: rewards ? { ...rewards, ...cacheAge(rewards.lastUpdated, REWARDS_FRESH_MS) } : null,
+      };
+    }),
+  };
+}
+
 // ============================================
 // CACHE REFRESH FUNCTIONS
 // ============================================
@@ -334,27 +487,7 @@ const FEE_DISTRIBUTOR_ABI = [
     outputs: [{ type: 'uint256' }],
     stateMutability: 'view',
   },
-];
-
-// ABI encode function call
-function encodeCall(funcName: string, args: string[]): string {
-  // Simple encoder for our specific case: single address arg
-  const funcSigs: Record<string, string> = {
-    'accumulatedRewards': '0x73f273fc',  // bytes4(keccak256("accumulatedRewards(address)"))
-    'tokenToNftSupply': '0x8fb0cb97',    // bytes4(keccak256("tokenToNftSupply(address)"))
-  };
-  const selector = funcSigs[funcName];
-  if (!selector) throw new Error(`Unknown function: ${funcName}`);
-  // Pad address to 32 bytes
-  const paddedArg = args[0].toLowerCase().replace('0x', '').padStart(64, '0');
-  return selector + paddedArg;
-}
-
-// Decode uint256 from RPC response
-function decodeUint256(hex: string): bigint {
-  if (!hex || hex === '0x') return 0n;
-  return BigInt(hex);
-}
+] as const;
 
 // Format wei to ETH string
 function formatEther(wei: bigint): string {
@@ -364,99 +497,74 @@ function formatEther(wei: bigint): string {
   return decPart === '0' ? intPart : `${intPart}.${decPart}`;
 }
 
-// Fetch market data from GeckoTerminal
-async function fetchMarketData(tokenAddress: string, chain: SupportedChain): Promise<MarketData | null> {
-  const networkId = chain === 'ethereum' ? 'eth' : 'base';
-  const poolsUrl = `https://api.geckoterminal.com/api/v2/networks/${networkId}/tokens/${tokenAddress.toLowerCase()}/pools?page=1`;
-  
-  try {
-    const response = await fetch(poolsUrl, {
-      headers: { 'Accept': 'application/json' },
-    });
-    
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    const pools = data.data;
-    
-    if (!pools || pools.length === 0) return null;
-    
-    const pool = pools[0];
-    const poolAttrs = pool.attributes;
-    if (!poolAttrs) return null;
-    
-    // Get price from pool - check which token we need
-    const baseTokenPrice = parseFloat(poolAttrs.base_token_price_usd || '0');
-    const quoteTokenPrice = parseFloat(poolAttrs.quote_token_price_usd || '0');
-    const baseTokenAddr = pool.relationships?.base_token?.data?.id?.split('_')[1]?.toLowerCase();
-    const isBaseToken = baseTokenAddr === tokenAddress.toLowerCase();
-    const priceUsd = isBaseToken ? baseTokenPrice : quoteTokenPrice;
-    
-    return {
-      priceUsd,
-      priceChange24h: parseFloat(poolAttrs.price_change_percentage?.h24 || '0'),
-      volume24h: parseFloat(poolAttrs.volume_usd?.h24 || '0'),
-      marketCap: parseFloat(poolAttrs.market_cap_usd || '0') || parseFloat(poolAttrs.fdv_usd || '0'),
-      fdv: parseFloat(poolAttrs.fdv_usd || '0'),
-      liquidity: parseFloat(poolAttrs.reserve_in_usd || '0'),
-      lastUpdated: Date.now(),
-    };
-  } catch (e) {
-    console.error(`GeckoTerminal error for ${tokenAddress}:`, e);
-    return null;
-  }
+// pool_id as hex; rows written before pool ids were stored as bytes hold the hex string's ASCII
+function poolIdHex(value: Buffer | string | null | undefined): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value.startsWith('0x') ? value.toLowerCase() : null;
+  const ascii = value.toString('utf-8');
+  if (ascii.startsWith('0x') && ascii.length === 66) return ascii.toLowerCase();
+  return `0x${value.toString('hex')}`;
 }
 
-// Fetch rewards data from FeeDistributor
-async function fetchRewardsData(tokenAddress: string, chain: SupportedChain): Promise<RewardsData | null> {
-  const rpcUrl = getRpcUrl(chain);
-  const config = CHAIN_CONFIGS[chain];
-  
-  if (!rpcUrl || !config.feeDistributor) return null;
-  
-  try {
-    // Batch RPC calls
-    const calls = [
-      {
-        jsonrpc: '2.0',
-        method: 'eth_call',
-        params: [{ to: config.feeDistributor, data: encodeCall('accumulatedRewards', [tokenAddress]) }, 'latest'],
-        id: 1,
-      },
-      {
-        jsonrpc: '2.0',
-        method: 'eth_call',
-        params: [{ to: config.feeDistributor, data: encodeCall('tokenToNftSupply', [tokenAddress]) }, 'latest'],
-        id: 2,
-      },
-    ];
-    
-    const response = await fetch(rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(calls),
+// Fetch rewards data for every token on a chain from the FeeDistributor of its
+// protocol version. All reads go through Multicall3 at one block, so a refresh
+// is a consistent snapshot and costs a handful of eth_calls however many tokens exist.
+async function fetchChainRewardsData(
+  chain: SupportedChain,
+  tokens: { address: string; protocol_version: string | null }[]
+): Promise<Map<string, RewardsData>> {
+  const results = new Map<string, RewardsData>();
+  const client = getChainClient(chain);
+  if (!client) return results;
+
+  const reads = tokens
+    .map(token => ({ address: token.address.toLowerCase(), feeDistributor: getFeeDistributor(chain, token.protocol_version) }))
+    .filter(read => read.feeDistributor);
+  if (reads.length === 0) return results;
+
+  const blockNumber = await client.getBlockNumber();
+  let failed = 0;
+
+  for (let i = 0; i < reads.length; i += REWARDS_MULTICALL_CHUNK) {
+    const chunk = reads.slice(i, i + REWARDS_MULTICALL_CHUNK);
+    const responses = await client.multicall({
+      contracts: chunk.flatMap(({ address, feeDistributor }) => [
+        { address: feeDistributor, abi: FEE_DISTRIBUTOR_ABI, functionName: 'accumulatedRewards', args: [address] },
+        { address: feeDistributor, abi: FEE_DISTRIBUTOR_ABI, functionName: 'tokenToNftSupply', args: [address] },
+      ]),
+      allowFailure: true,
+      blockNumber,
+      batchSize: 0,  // chunked above - one eth_call per chunk
+    });
+
+    chunk.forEach(({ address }, j) => {
+      const accumulated = responses[j * 2];
+      const supply = responses[j * 2 + 1];
+      if (accumulated.status !== 'success' || supply.status !== 'success') {
+        failed++;
+        return;
+      }
+
+      const accRewardPerNFT = accumulated.result as bigint;
+      const nftSupply = supply.result as bigint;
+      // Total rewards = accRewardPerNFT * nftSupply / 1e18 (PRECISION)
+      const totalRewardsWei = (accRewardPerNFT * nftSupply) / (10n ** 18n);
+
+      results.set(address, {
+        totalRewards: formatEther(totalRewardsWei),
+        accRewardPerNFT: accRewardPerNFT.toString(),
+        nftSupply: nftSupply.toString(),
+        blockNumber: blockNumber.toString(),
+        lastUpdated: Date.now(),
+      });
     });
-    
-    if (!response.ok) return null;
-    
-    const results = await response.json();
-    
-    const accRewardPerNFT = decodeUint256(results[0]?.result);
-    const nftSupply = decodeUint256(results[1]?.result);
-    
-    // Total rewards = accRewardPerNFT * nftSupply / 1e18 (PRECISION)
-    const totalRewardsWei = (accRewardPerNFT * nftSupply) / (10n ** 18n);
-    
-    return {
-      totalRewards: formatEther(totalRewardsWei),
-      accRewardPerNFT: accRewardPerNFT.toString(),
-      nftSupply: nftSupply.toString(),
-      lastUpdated: Date.now(),
-    };
-  } catch (e) {
-    console.error(`Rewards fetch error for ${tokenAddress} on ${chain}:`, e);
-    return null;
   }
+
+  if (failed > 0) {
+    console.warn(`⚠️ [${chain}] Rewards reads failed for ${failed} tokens at block ${blockNumber}`);
+  }
+  rewardsSnapshotBlocks[chain] = blockNumber.toString();
+  return results;
 }
 
 // Fetch collection info from OpenSea/Reservoir
@@ -487,68 +595,471 @@ async function fetchCollectionInfo(collectionAddress: string, chain: SupportedCh
 
 // Refresh all market data
 async function refreshMarketCache(): Promise<void> {
-  if (!sql || cacheRefreshInProgress) return;
+  if (!sql || marketRefreshInProgress) return;
   
   const now = Date.now();
   if (now - lastMarketRefresh < MARKET_DATA_REFRESH_MS) return;
   
+  marketRefreshInProgress = true;
   try {
-    const tokens = await sql`SELECT address, chain FROM tokens`;
+    const tokens = await sql`SELECT address, chain, pool_id, decimals, total_supply FROM tokens`;
     console.log(`📊 Refreshing market data for ${tokens.length} tokens...`);
-    
-    // Process in parallel with rate limiting (5 concurrent)
-    const batchSize = 5;
-    for (let i = 0; i < tokens.length; i += batchSize) {
-      const batch = tokens.slice(i, i + batchSize);
-      await Promise.all(batch.map(async (token) => {
-        const data = await fetchMarketData(token.address, token.chain as SupportedChain);
-        if (data) {
-          marketCache.set(`${token.chain}:${token.address.toLowerCase()}`, data);
-        }
-      }));
-      // Small delay between batches to avoid rate limits
-      if (i + batchSize < tokens.length) {
-        await new Promise(r => setTimeout(r, 200));
+    await loadTokenCollections();
+    
+    for (const chain of getActiveChains()) {
+      const chainTokens: MarketToken[] = tokens
+        .filter(t => t.chain === chain)
+        .map(t => ({
+          address: t.address.toLowerCase(),
+          chain,
+          poolId: poolIdHex(t.pool_id),
+          decimals: t.decimals ?? 18,
+          totalSupply: t.total_supply,
+        }));
+      if (chainTokens.length === 0) continue;
+      
+      const { quotes, pools } = await fetchMarketQuotes(chain, chainTokens);
+      const updated: string[] = [];
+      for (const token of chainTokens) {
+        const cacheKey = `${chain}:${token.address}`;
+        const quote = quotes.get(token.address);
+        const pool = pools.get(token.address) || null;
+        // Unpriced this round (every provider down) - keep serving the last entry
+        if (!quote) continue;
+        
+        const poolPrice = pool ? parseFloat(pool.priceEth) : 0;
+        const entry: MarketData = {
+          ...quote,
+          onchain: pool,
+          priceDeviationPct: quote.source !== 'onchain' && quote.priceEth && poolPrice
+            ? ((quote.priceEth - poolPrice) / poolPrice) * 100
+            : null,
+          lastUpdated: Date.now(),
+        };
+        const previous = marketCache.get(cacheKey);
+        marketCache.set(cacheKey, entry);
+        emitCacheUpdate('market:update', cacheKey, previous, entry, MARKET_DIFF_FIELDS);
+        updated.push(cacheKey);
       }
+      await persistCacheEntries('market', updated.map(key => [key, marketCache.get(key)!]));
     }
+    recordServedCounts([...marketCache.values()].map(m => m.source));
     
     lastMarketRefresh = now;
     console.log(`✅ Market cache refreshed (${marketCache.size} entries)`);
   } catch (e) {
     console.error('Market cache refresh error:', e);
+  } finally {
+    marketRefreshInProgress = false;
   }
 }
 
 // Refresh all rewards data
 async function refreshRewardsCache(): Promise<void> {
-  if (!sql || cacheRefreshInProgress) return;
+  if (!sql || rewardsRefreshInProgress) return;
   
   const now = Date.now();
   if (now - lastRewardsRefresh < REWARDS_REFRESH_MS) return;
   
+  rewardsRefreshInProgress = true;
   try {
-    const tokens = await sql`SELECT address, chain FROM tokens`;
+    const tokens = await sql`SELECT address, chain, protocol_version FROM tokens`;
     console.log(`💰 Refreshing rewards data for ${tokens.length} tokens...`);
+    await loadTokenCollections();
     
-    // Process per chain (batch RPC calls within same chain)
-    for (const chain of ['base', 'ethereum'] as SupportedChain[]) {
+    // One pinned snapshot per chain; a failing chain keeps its previous values
+    for (const chain of getActiveChains()) {
       const chainTokens = tokens.filter(t => t.chain === chain);
-      
-      await Promise.all(chainTokens.map(async (token) => {
-        const data = await fetchRewardsData(token.address, chain);
-        if (data) {
-          rewardsCache.set(`${chain}:${token.address.toLowerCase()}`, data);
+      if (chainTokens.length === 0) continue;
+
+      try {
+        const data = await fetchChainRewardsData(chain, chainTokens);
+        for (const [address, rewards] of data) {
+          const key = `${chain}:${address}`;
+          const previous = rewardsCache.get(key);
+          rewardsCache.set(key, rewards);
+          emitCacheUpdate('rewards:update', key, previous, rewards, REWARDS_DIFF_FIELDS);
         }
-      }));
+        await persistRewardsSnapshots(chain, data);
+        await persistCacheEntries('rewards', [...data.keys()].map(address => [`${chain}:${address}`, rewardsCache.get(`${chain}:${address}`)!]));
+      } catch (e: any) {
+        console.error(`Rewards refresh error on ${chain}:`, e.shortMessage || e.message);
+      }
     }
     
     lastRewardsRefresh = now;
     console.log(`✅ Rewards cache refreshed (${rewardsCache.size} entries)`);
   } catch (e) {
     console.error('Rewards cache refresh error:', e);
+  } finally {
+    rewardsRefreshInProgress = false;
+  }
+}
+
+// ============================================
+// PERSISTED CACHES
+// ============================================
+
+// Write cache entries through to Postgres so a restart starts from them
+async function persistCacheEntries(cache: 'market' | 'rewards', entries: [string, { lastUpdated: number }][]): Promise<void> {
+  if (!sql || entries.length === 0) return;
+
+  try {
+    await sql`
+      INSERT INTO api_cache_entries (cache, key, data, updated_at)
+      SELECT ${cache}, e.key, e.data::jsonb, to_timestamp(e.updated_ms / 1000.0)
+      FROM unnest(
+        ${entries.map(([key]) => key)}::text[],
+        ${entries.map(([, data]) => JSON.stringify(data))}::text[],
+        ${entries.map(([, data]) => data.lastUpdated)}::float8[]
+      ) AS e(key, data, updated_ms)
+      ON CONFLICT (cache, key) DO UPDATE SET data = EXCLUDED.data, updated_at = EXCLUDED.updated_at
+    `;
+  } catch (e: any) {
+    console.error(`Cache persist error (${cache}):`, e.message);
+  }
+}
+
+// Restore persisted entries at boot. They keep their own lastUpdated, so they
+// are served as stale until the first refresh replaces them.
+async function loadPersistedCaches(): Promise<void> {
+  if (!sql) return;
+
+  const caches: Record<string, Map<string, any>> = {
+    market: marketCache,
+    rewards: rewardsCache,
+  };
+
+  try {
+    const rows = await sql`
+      SELECT cache, key, data FROM api_cache_entries
+      WHERE updated_at > ${new Date(Date.now() - CACHE_MAX_AGE_MS)}
+    `;
+    for (const row of rows) {
+      const cache = caches[row.cache];
+      if (cache && !cache.has(row.key)) cache.set(row.key, row.data);
+    }
+    await loadTokenCollections();
+    console.log(`💾 Caches restored: ${marketCache.size} market, ${rewardsCache.size} rewards entries`);
+  } catch (e: any) {
+    console.error('Cache restore error:', e.message);
+  }
+}
+
+// Age of a cache entry, and whether it is past its freshness window
+function cacheAge(lastUpdated: number, freshMs: number) {
+  const ageMs = Date.now() - lastUpdated;
+  return { lastUpdated, ageMs, stale: ageMs > freshMs };
+}
+
+// Stale entries were served - refresh in the background (each refresh is
+// rate-limited to its interval and never runs twice at once)
+function revalidateCaches(): void {
+  refreshMarketCache();
+  refreshRewardsCache();
+}
+
+// ============================================
+// REWARDS SNAPSHOTS
+// ============================================
+
+// Persist changed rewards values as a time series. The value at any time is
+// the latest snapshot at or before it, so unchanged values aren't repeated.
+async function persistRewardsSnapshots(chain: SupportedChain, data: Map<string, RewardsData>): Promise<void> {
+  if (!sql) return;
+
+  const now = Date.now();
+  const rows = [];
+  for (const [address, rewards] of data) {
+    const key = `${chain}:${address}`;
+    const last = persistedRewards.get(key);
+    if (last && now - last.at < REWARDS_SNAPSHOT_INTERVAL_MS) continue;
+    if (last && last.accRewardPerNFT === rewards.accRewardPerNFT && last.nftSupply === rewards.nftSupply) continue;
+
+    rows.push({
+      chain,
+      token_address: address,
+      block_number: rewards.blockNumber,
+      acc_reward_per_nft: rewards.accRewardPerNFT,
+      nft_supply: rewards.nftSupply,
+      total_rewards: rewards.totalRewards,
+    });
+  }
+  if (rows.length === 0) return;
+
+  try {
+    await sql`
+      INSERT INTO rewards_snapshots ${sql(rows, 'chain', 'token_address', 'block_number', 'acc_reward_per_nft', 'nft_supply', 'total_rewards')}
+      ON CONFLICT (chain, token_address, block_number) DO NOTHING
+    `;
+    for (const row of rows) {
+      persistedRewards.set(`${chain}:${row.token_address}`, {
+        accRewardPerNFT: row.acc_reward_per_nft,
+        nftSupply: row.nft_supply,
+        at: now,
+      });
+    }
+  } catch (e: any) {
+    console.error(`Rewards snapshot error on ${chain}:`, e.message);
+  }
+}
+
+// Warm start: fill the rewards cache with each token's latest snapshot so
+// responses have data before the first refresh completes
+async function loadRewardsSnapshots(): Promise<void> {
+  if (!sql) return;
+
+  try {
+    const snapshots = await sql`
+      SELECT DISTINCT ON (chain, token_address)
+        chain, token_address, block_number, acc_reward_per_nft, nft_supply, total_rewards, snapshot_at
+      FROM rewards_snapshots
+      ORDER BY chain, token_address, snapshot_at DESC
+    `;
+
+    for (const snapshot of snapshots) {
+      const key = `${snapshot.chain}:${snapshot.token_address}`;
+      const at = new Date(snapshot.snapshot_at).getTime();
+      persistedRewards.set(key, {
+        accRewardPerNFT: snapshot.acc_reward_per_nft,
+        nftSupply: snapshot.nft_supply,
+        at,
+      });
+      if (rewardsCache.has(key)) continue;
+      rewardsCache.set(key, {
+        totalRewards: snapshot.total_rewards,
+        accRewardPerNFT: snapshot.acc_reward_per_nft,
+        nftSupply: snapshot.nft_supply,
+        blockNumber: String(snapshot.block_number),
+        lastUpdated: at,
+      });
+    }
+
+    console.log(`💾 Rewards cache warmed from ${snapshots.length} snapshots`);
+  } catch (e: any) {
+    console.error('Rewards snapshot load error:', e.message);
   }
 }
 
+// Per-NFT wei between two accRewardPerNFT readings (both scaled by 1e18)
+function perNftWei(accNow: string, accThen: string): bigint {
+  const diff = BigInt(accNow) - BigInt(accThen);
+  return diff > 0n ? diff / (10n ** 18n) : 0n;
+}
+
+// Each token's value at a time: the latest snapshot at or before it, or the
+// earliest one when recording started later (nothing earned before that)
+async function rewardsSnapshotsAt(addresses: string[], at: Date) {
+  return sql`
+    SELECT DISTINCT ON (token_address)
+      token_address, block_number, acc_reward_per_nft, nft_supply, total_rewards, snapshot_at,
+      snapshot_at <= ${at} AS complete
+    FROM rewards_snapshots
+    WHERE token_address IN ${sql(addresses)}
+    ORDER BY token_address, (snapshot_at <= ${at}) DESC,
+      CASE WHEN snapshot_at <= ${at} THEN snapshot_at END DESC, snapshot_at ASC
+  `;
+}
+
+// Each token's current snapshot and what it earned over every history window
+async function getRewardsDeltasByToken(addresses: string[]) {
+  const now = new Date();
+  const current = await rewardsSnapshotsAt(addresses, now);
+  const byToken = new Map<string, { current: any; windows: Record<string, any> }>(
+    current.map((s: any) => [s.token_address, { current: s, windows: {} }])
+  );
+
+  for (const [window, windowDays] of Object.entries(REWARDS_HISTORY_WINDOWS)) {
+    const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+    for (const snapshot of await rewardsSnapshotsAt(addresses, since)) {
+      const entry = byToken.get(snapshot.token_address);
+      if (!entry) continue;
+      entry.windows[window] = {
+        earnedEth: parseFloat(entry.current.total_rewards) - parseFloat(snapshot.total_rewards),
+        earnedPerNftWei: perNftWei(entry.current.acc_reward_per_nft, snapshot.acc_reward_per_nft),
+        from: new Date(snapshot.snapshot_at),
+        complete: snapshot.complete,
+      };
+    }
+  }
+  return byToken;
+}
+
+// Sum per-token window deltas over a set of tokens (one NFT earns from all of them)
+function sumRewardsDeltas(byToken: Awaited<ReturnType<typeof getRewardsDeltasByToken>>, addresses: string[]) {
+  const entries = addresses.map(a => byToken.get(a)).filter(Boolean);
+  const deltas: Record<string, { earnedEth: number; earnedPerNftWei: bigint; from: Date | null; complete: boolean }> = {};
+
+  for (const window of Object.keys(REWARDS_HISTORY_WINDOWS)) {
+    const sum = { earnedEth: 0, earnedPerNftWei: 0n, from: null as Date | null, complete: entries.length > 0 };
+    for (const entry of entries) {
+      const delta = entry!.windows[window];
+      sum.earnedEth += delta.earnedEth;
+      sum.earnedPerNftWei += delta.earnedPerNftWei;
+      if (!delta.complete) sum.complete = false;
+      if (!sum.from || delta.from < sum.from) sum.from = delta.from;
+    }
+    sum.earnedEth = Math.max(sum.earnedEth, 0);
+    deltas[window] = sum;
+  }
+  return deltas;
+}
+
+/**
+ * Earnings of a set of tokens (one token, or every token of a collection):
+ * current totals, 24h/7d/30d deltas and a daily series. Per-NFT figures are
+ * what one NFT earned across all the tokens.
+ */
+async function getRewardsHistory(addresses: string[], days: number) {
+  const byToken = await getRewardsDeltasByToken(addresses);
+  const current = [...byToken.values()].map(entry => entry.current);
+
+  const deltas: Record<string, any> = {};
+  for (const [window, delta] of Object.entries(sumRewardsDeltas(byToken, addresses))) {
+    deltas[window] = {
+      earnedEth: delta.earnedEth,
+      earnedPerNftEth: formatEther(delta.earnedPerNftWei),
+      from: delta.from,
+      // false when recording started inside the window
+      complete: delta.complete,
+    };
+  }
+
+  // Value at the end of each UTC day, plus one day before the range as baseline
+  const points = await sql`
+    WITH days AS (
+      SELECT generate_series(
+        date_trunc('day', NOW()) - ${days}::int * INTERVAL '1 day',
+        date_trunc('day', NOW()),
+        INTERVAL '1 day'
+      ) AS day
+    )
+    SELECT d.day, s.token_address, s.acc_reward_per_nft, s.total_rewards
+    FROM days d
+    CROSS JOIN unnest(${addresses}::text[]) AS t(address)
+    JOIN LATERAL (
+      SELECT token_address, acc_reward_per_nft, total_rewards
+      FROM rewards_snapshots
+      WHERE token_address = t.address
+      ORDER BY (snapshot_at < d.day + INTERVAL '1 day') DESC,
+        CASE WHEN snapshot_at < d.day + INTERVAL '1 day' THEN snapshot_at END DESC, snapshot_at ASC
+      LIMIT 1
+    ) s ON true
+    ORDER BY d.day
+  `;
+
+  const byDay = new Map<string, { totalRewards: number; acc: Map<string, string> }>();
+  for (const point of points) {
+    const date = new Date(point.day).toISOString().slice(0, 10);
+    const entry = byDay.get(date) || { totalRewards: 0, acc: new Map() };
+    entry.totalRewards += parseFloat(point.total_rewards);
+    entry.acc.set(point.token_address, point.acc_reward_per_nft);
+    byDay.set(date, entry);
+  }
+
+  const daily = [];
+  let previous: { totalRewards: number; acc: Map<string, string> } | null = null;
+  for (const [date, entry] of byDay) {
+    if (previous) {
+      let earnedPerNft = 0n;
+      for (const [address, acc] of entry.acc) {
+        earnedPerNft += perNftWei(acc, previous.acc.get(address) ?? acc);
+      }
+      daily.push({
+        date,
+        totalRewardsEth: entry.totalRewards,
+        earnedEth: Math.max(entry.totalRewards - previous.totalRewards, 0),
+        earnedPerNftEth: formatEther(earnedPerNft),
+      });
+    }
+    previous = entry;
+  }
+
+  return {
+    current: {
+      totalRewardsEth: current.reduce((sum: number, s: any) => sum + parseFloat(s.total_rewards), 0),
+      accRewardPerNftEth: formatEther(current.reduce((sum: bigint, s: any) => sum + perNftWei(s.acc_reward_per_nft, '0'), 0n)),
+      snapshotAt: current.reduce((latest: Date | null, s: any) => {
+        const at = new Date(s.snapshot_at);
+        return !latest || at > latest ? at : latest;
+      }, null),
+    },
+    deltas,
+    daily,
+  };
+}
+
+// Rewards history in USD: each day at that day's closing ETH/USD price
+// (eth_usd_prices, recorded by the indexer), the totals and windows at today's
+async function withUsdValues(history: Awaited<ReturnType<typeof getRewardsHistory>>, chain: SupportedChain) {
+  const ethUsd = await getEthUsdPrice(chain);
+  const dates = history.daily.map(day => day.date);
+  const closes = new Map<string, number>();
+  if (dates.length > 0) {
+    const rows = await sql`
+      SELECT d.day::text AS date, p.price_usd
+      FROM unnest(${dates}::date[]) AS d(day)
+      JOIN LATERAL (
+        SELECT price_usd FROM eth_usd_prices
+        WHERE chain = ${chain} AND block_timestamp < d.day + INTERVAL '1 day'
+        ORDER BY block_timestamp DESC
+        LIMIT 1
+      ) p ON true
+    `;
+    for (const row of rows) closes.set(row.date, parseFloat(row.price_usd));
+  }
+  const usd = (eth: number | string, price: number | null | undefined) =>
+    price != null ? parseFloat(String(eth)) * price : null;
+  
+  return {
+    current: { ...history.current, totalRewardsUsd: usd(history.current.totalRewardsEth, ethUsd), ethUsd },
+    deltas: Object.fromEntries(Object.entries(history.deltas).map(([window, delta]) => [window, {
+      ...delta,
+      earnedUsd: usd(delta.earnedEth, ethUsd),
+      earnedPerNftUsd: usd(delta.earnedPerNftEth, ethUsd),
+    }])),
+    daily: history.daily.map(day => {
+      const close = closes.get(day.date) ?? null;
+      return {
+        ...day,
+        ethUsd: close,
+        totalRewardsUsd: usd(day.totalRewardsEth, close),
+        earnedUsd: usd(day.earnedEth, close),
+        earnedPerNftUsd: usd(day.earnedPerNftEth, close),
+      };
+    }),
+  };
+}
+
+/**
+ * Per-NFT yield from trailing earnings: each window's per-NFT earnings,
+ * annualized over the time it actually covers, as an APR on the floor price.
+ * APR is null without a floor price or while history covers less than
+ * MIN_YIELD_DAYS (a few minutes of earnings would annualize absurdly).
+ */
+function estimateNftYield(deltas: ReturnType<typeof sumRewardsDeltas>, floorPriceEth: number | null) {
+  const now = Date.now();
+  const result: Record<string, any> = {};
+
+  for (const [window, windowDays] of Object.entries(REWARDS_HISTORY_WINDOWS)) {
+    const delta = deltas[window];
+    const days = delta.complete
+      ? windowDays
+      : delta.from ? (now - delta.from.getTime()) / (24 * 60 * 60 * 1000) : 0;
+    const earnedPerNft = parseFloat(formatEther(delta.earnedPerNftWei));
+    const annualized = days >= MIN_YIELD_DAYS ? earnedPerNft * 365 / days : null;
+
+    result[window] = {
+      earnedPerNftEth: earnedPerNft,
+      days,
+      annualizedPerNftEth: annualized,
+      aprPercent: annualized !== null && floorPriceEth ? (annualized / floorPriceEth) * 100 : null,
+      complete: delta.complete,
+    };
+  }
+  return result;
+}
+
 // Full cache refresh (market + rewards)
 async function refreshAllCaches(): Promise<void> {
   if (cacheRefreshInProgress) return;
@@ -762,14 +1273,18 @@ app.get('/tokens/:address', async (c) => {
     
     const token = result[0];
     const chainConfig = getChainConfig(token.chain);
+    // Claims must go to the FeeDistributor of the generation the token was deployed through
+    const deployment = chainConfig ? getContractDeployment(token.chain, token.protocol_version) : null;
     
     return c.json({
       ...token,
       chainInfo: chainConfig ? {
         chainId: chainConfig.chainId,
         name: chainConfig.name,
-        factory: chainConfig.factory,
-        feeDistributor: chainConfig.feeDistributor,
+        protocolVersion: deployment?.version || null,
+        factory: deployment?.factory || chainConfig.factory,
+        hook: deployment?.hook || chainConfig.hook,
+        feeDistributor: deployment?.feeDistributor || chainConfig.feeDistributor,
       } : null,
     });
   } catch (e: any) {
@@ -778,6 +1293,70 @@ app.get('/tokens/:address', async (c) => {
   }
 });
 
+// GET /tokens/:address/rewards/history - Holder earnings over time (24h/7d/30d deltas, daily series)
+app.get('/tokens/:address/rewards/history', async (c) => {
+  if (!sql) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+  
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const days = Math.min(Math.max(parseInt(c.req.query('days') || '30') || 30, 1), 365);
+    const currency = c.req.query('currency') || 'eth';
+    if (currency !== 'eth' && currency !== 'usd') {
+      return c.json({ error: 'Invalid currency. Must be eth or usd' }, 400);
+    }
+    
+    const [token] = await sql`SELECT address, chain, symbol FROM tokens WHERE address = ${address}`;
+    if (!token) {
+      return c.json({ error: 'Token not found' }, 404);
+    }
+    
+    const history = await getRewardsHistory([token.address], days);
+    return c.json({
+      token: { address: token.address, chain: token.chain, symbol: token.symbol },
+      days,
+      currency,
+      ...(currency === 'usd' ? await withUsdValues(history, token.chain) : history),
+    });
+  } catch (e: any) {
+    console.error('Error fetching rewards history:', e.message);
+    return c.json({ error: e.message }, 500);
+  }
+});
+
+// GET /tokens/:address/yield - Per-NFT yield from this token, as APR on the collection floor
+app.get('/tokens/:address/yield', async (c) => {
+  if (!sql) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+  
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const [token] = await sql`
+      SELECT t.address, t.chain, t.symbol, t.nft_collection, c.floor_price_eth
+      FROM tokens t
+      LEFT JOIN collections c ON c.id = t.collection_id
+      WHERE t.address = ${address}
+    `;
+    if (!token) {
+      return c.json({ error: 'Token not found' }, 404);
+    }
+    
+    const floorPriceEth = token.floor_price_eth ? parseFloat(token.floor_price_eth) : null;
+    const byToken = await getRewardsDeltasByToken([token.address]);
+    
+    return c.json({
+      token: { address: token.address, chain: token.chain, symbol: token.symbol, nftCollection: token.nft_collection },
+      floorPriceEth,
+      yield: estimateNftYield(sumRewardsDeltas(byToken, [token.address]), floorPriceEth),
+    });
+  } catch (e: any) {
+    console.error('Error estimating token yield:', e.message);
+    return c.json({ error: e.message }, 500);
+  }
+});
+
 // DELETE /tokens/:address - Delete a token (admin only)
 app.delete('/tokens/:address', async (c) => {
   if (!sql) {
@@ -1075,8 +1654,9 @@ app.post('/tokens', async (c) => {
     const newToken = result[0];
     console.log(`✅ Token registered: ${symbol} (${address}) on ${chain}`);
     
-    // Emit WebSocket event for real-time updates
+    // Emit WebSocket event for real-time updates (and let other processes know)
     emitNewToken(newToken);
+    await publishEvent(sql, { type: 'token:new', chain, address: newToken.address, nftCollection: newToken.nft_collection });
     
     return c.json(newToken);
   } catch (e: any) {
@@ -1132,9 +1712,16 @@ app.get('/collections', async (c) => {
     // First, get all tokens to build a lookup by collection_id
     const allTokens = await sql`SELECT address, chain, collection_id, nft_collection FROM tokens`;
     
+    // Current ETH/USD per chain, for the USD value of rewards
+    const ethUsd: Partial<Record<SupportedChain, number | null>> = {};
+    for (const chain of getActiveChains()) {
+      ethUsd[chain] = await getEthUsdPrice(chain);
+    }
+    
     // Add total rewards from cache for each collection (only for linked tokens)
     const collectionsWithRewards = collections.map((col: any) => {
       let totalRewards = 0;
+      let totalRewardsUsd: number | null = 0;
       
       // Find all tokens linked to this collection
       const linkedTokens = allTokens.filter((t: any) => 
@@ -1149,6 +1736,8 @@ app.get('/collections', async (c) => {
         if (data) {
           const tokenRewards = parseFloat(data.totalRewards || '0');
           totalRewards += tokenRewards;
+          const price = ethUsd[token.chain as SupportedChain];
+          totalRewardsUsd = totalRewardsUsd !== null && price != null ? totalRewardsUsd + tokenRewards * price : null;
         }
       }
       
@@ -1165,6 +1754,7 @@ app.get('/collections', async (c) => {
         holderCount: col.holder_count,
         tokenCount: parseInt(col.token_count || '0'),
         totalRewardsEth: totalRewards,
+        totalRewardsUsd,
         addedAt: col.added_at,
         updatedAt: col.updated_at,
       };
@@ -1224,6 +1814,73 @@ app.get('/collections/exists', async (c) => {
   }
 });
 
+// GET /collections/yield - Collections ranked by per-NFT yield on their floor price
+app.get('/collections/yield', async (c) => {
+  if (!sql) {
+    return c.json({ error: 'Database not configured', collections: [] }, 500);
+  }
+  
+  try {
+    const chainFilter = c.req.query('chain');
+    const window = c.req.query('window') || '7d';
+    const order = c.req.query('order') === 'asc' ? 'asc' : 'desc';
+    if (!Object.hasOwn(REWARDS_HISTORY_WINDOWS, window)) {
+      return c.json({ error: `Invalid window. Must be one of: ${Object.keys(REWARDS_HISTORY_WINDOWS).join(', ')}` }, 400);
+    }
+    
+    const chainId = chainFilter === 'ethereum' || chainFilter === '1' ? 1 :
+                    chainFilter === 'base' || chainFilter === '8453' ? 8453 : null;
+    const collections = chainId
+      ? await sql`SELECT * FROM collections WHERE chain_id = ${chainId}`
+      : await sql`SELECT * FROM collections`;
+    const allTokens = await sql`SELECT address, chain, collection_id, nft_collection FROM tokens`;
+    
+    // Tokens paying each collection's holders (same matching as GET /collections)
+    const linked = new Map(collections.map((col: any) => [col.id, allTokens.filter((t: any) =>
+      CHAIN_CONFIGS[t.chain as SupportedChain]?.chainId === col.chain_id && (
+        t.collection_id === col.id ||
+        (t.nft_collection && t.nft_collection.toLowerCase() === col.address.toLowerCase())
+      )
+    ).map((t: any) => t.address)]));
+    
+    const addresses = [...new Set([...linked.values()].flat())];
+    const byToken = addresses.length > 0 ? await getRewardsDeltasByToken(addresses) : new Map();
+    
+    const ranking = collections.map((col: any) => {
+      const floorPriceEth = col.floor_price_eth ? parseFloat(col.floor_price_eth) : null;
+      const tokens = linked.get(col.id) || [];
+      return {
+        address: col.address,
+        chainId: col.chain_id,
+        name: col.name,
+        imageUrl: col.image_url,
+        floorPriceEth,
+        tokenCount: tokens.length,
+        yield: estimateNftYield(sumRewardsDeltas(byToken, tokens), floorPriceEth),
+      };
+    });
+    
+    // Collections without an APR (no floor or no history) always sort last
+    ranking.sort((a: any, b: any) => {
+      const aprA = a.yield[window].aprPercent;
+      const aprB = b.yield[window].aprPercent;
+      if (aprA === null) return aprB === null ? 0 : 1;
+      if (aprB === null) return -1;
+      return order === 'asc' ? aprA - aprB : aprB - aprA;
+    });
+    
+    return c.json({
+      collections: ranking,
+      count: ranking.length,
+      sort: { window, order },
+      filter: chainFilter || null,
+    });
+  } catch (e: any) {
+    console.error('Error ranking collection yields:', e.message);
+    return c.json({ error: e.message, collections: [] }, 500);
+  }
+});
+
 // GET /collections/:address - Single collection with linked tokens
 app.get('/collections/:address', async (c) => {
   if (!sql) {
@@ -1279,16 +1936,19 @@ app.get('/collections/:address', async (c) => {
         isVerified: token.is_verified || false,
         market: market ? {
           priceUsd: market.priceUsd,
+          priceEth: market.priceEth,
           priceChange24h: market.priceChange24h,
           volume24h: market.volume24h,
           marketCap: market.marketCap,
           fdv: market.fdv,
           liquidity: market.liquidity,
+          source: market.source,
         } : null,
         rewards: rewards ? {
           totalRewards: rewards.totalRewards,
           accRewardPerNFT: rewards.accRewardPerNFT,
           nftSupply: rewards.nftSupply,
+          blockNumber: rewards.blockNumber,
         } : null,
       };
     });
@@ -1323,6 +1983,116 @@ app.get('/collections/:address', async (c) => {
   }
 });
 
+// GET /collections/:address/rewards/history - Earnings of every token linked to a collection
+app.get('/collections/:address/rewards/history', async (c) => {
+  if (!sql) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+  
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const chainParam = c.req.query('chain');
+    const chainId = chainParam === 'ethereum' || chainParam === '1' ? 1 : 
+                    chainParam === 'base' || chainParam === '8453' ? 8453 : null;
+    const days = Math.min(Math.max(parseInt(c.req.query('days') || '30') || 30, 1), 365);
+    const currency = c.req.query('currency') || 'eth';
+    if (currency !== 'eth' && currency !== 'usd') {
+      return c.json({ error: 'Invalid currency. Must be eth or usd' }, 400);
+    }
+    
+    const [collection] = chainId
+      ? await sql`SELECT * FROM collections WHERE LOWER(address) = ${address} AND chain_id = ${chainId}`
+      : await sql`SELECT * FROM collections WHERE LOWER(address) = ${address} LIMIT 1`;
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const chain = (Object.keys(CHAIN_CONFIGS) as SupportedChain[])
+      .find(ch => CHAIN_CONFIGS[ch].chainId === collection.chain_id);
+    const tokens = await sql`
+      SELECT address, symbol FROM tokens
+      WHERE chain = ${chain}
+        AND (collection_id = ${collection.id} OR LOWER(nft_collection) = ${address})
+      ORDER BY deployed_at DESC
+    `;
+    
+    let history = tokens.length > 0
+      ? await getRewardsHistory(tokens.map((t: any) => t.address), days)
+      : null;
+    if (history && currency === 'usd') history = await withUsdValues(history, chain);
+    
+    return c.json({
+      collection: {
+        address: collection.address,
+        chainId: collection.chain_id,
+        name: collection.name,
+      },
+      tokens: tokens.map((t: any) => ({ address: t.address, symbol: t.symbol })),
+      days,
+      currency,
+      current: history?.current ?? null,
+      deltas: history?.deltas ?? {},
+      daily: history?.daily ?? [],
+    });
+  } catch (e: any) {
+    console.error('Error fetching collection rewards history:', e.message);
+    return c.json({ error: e.message }, 500);
+  }
+});
+
+// GET /collections/:address/yield - Per-NFT yield across every token linked to a collection
+app.get('/collections/:address/yield', async (c) => {
+  if (!sql) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+  
+  try {
+    const address = c.req.param('address').toLowerCase();
+    const chainParam = c.req.query('chain');
+    const chainId = chainParam === 'ethereum' || chainParam === '1' ? 1 : 
+                    chainParam === 'base' || chainParam === '8453' ? 8453 : null;
+    
+    const [collection] = chainId
+      ? await sql`SELECT * FROM collections WHERE LOWER(address) = ${address} AND chain_id = ${chainId}`
+      : await sql`SELECT * FROM collections WHERE LOWER(address) = ${address} LIMIT 1`;
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    
+    const chain = (Object.keys(CHAIN_CONFIGS) as SupportedChain[])
+      .find(ch => CHAIN_CONFIGS[ch].chainId === collection.chain_id);
+    const tokens = await sql`
+      SELECT address, symbol FROM tokens
+      WHERE chain = ${chain}
+        AND (collection_id = ${collection.id} OR LOWER(nft_collection) = ${address})
+      ORDER BY deployed_at DESC
+    `;
+    
+    const floorPriceEth = collection.floor_price_eth ? parseFloat(collection.floor_price_eth) : null;
+    const addresses = tokens.map((t: any) => t.address);
+    const byToken = addresses.length > 0 ? await getRewardsDeltasByToken(addresses) : new Map();
+    
+    return c.json({
+      collection: {
+        address: collection.address,
+        chainId: collection.chain_id,
+        name: collection.name,
+      },
+      floorPriceEth,
+      yield: estimateNftYield(sumRewardsDeltas(byToken, addresses), floorPriceEth),
+      // What one NFT earns from each token on its own
+      tokens: tokens.map((t: any) => ({
+        address: t.address,
+        symbol: t.symbol,
+        yield: estimateNftYield(sumRewardsDeltas(byToken, [t.address]), floorPriceEth),
+      })),
+    });
+  } catch (e: any) {
+    console.error('Error estimating collection yield:', e.message);
+    return c.json({ error: e.message }, 500);
+  }
+});
+
 
 // ============================================
 // COLLECTION LISTING API ENDPOINTS
@@ -1611,18 +2381,22 @@ app.get('/stats', async (c) => {
 // GET /cache/market - All cached market data
 app.get('/cache/market', (c) => {
   const chainFilter = c.req.query('chain');
-  const result: Record<string, MarketData> = {};
+  const result: Record<string, MarketData & ReturnType<typeof cacheAge>> = {};
+  let stale = 0;
   
   for (const [key, data] of marketCache.entries()) {
     const [chain, address] = key.split(':');
     if (!chainFilter || chain === chainFilter) {
-      result[address] = data;
+      result[address] = { ...data, ...cacheAge(data.lastUpdated, MARKET_FRESH_MS) };
+      if (result[address].stale) stale++;
     }
   }
+  if (stale > 0) revalidateCaches();
   
   return c.json({
     data: result,
     count: Object.keys(result).length,
+    stale,
     lastRefresh: lastMarketRefresh,
     nextRefresh: lastMarketRefresh + MARKET_DATA_REFRESH_MS,
     filter: chainFilter || null,
@@ -1632,18 +2406,22 @@ app.get('/cache/market', (c) => {
 // GET /cache/rewards - All cached rewards data
 app.get('/cache/rewards', (c) => {
   const chainFilter = c.req.query('chain');
-  const result: Record<string, RewardsData> = {};
+  const result: Record<string, RewardsData & ReturnType<typeof cacheAge>> = {};
+  let stale = 0;
   
   for (const [key, data] of rewardsCache.entries()) {
     const [chain, address] = key.split(':');
     if (!chainFilter || chain === chainFilter) {
-      result[address] = data;
+      result[address] = { ...data, ...cacheAge(data.lastUpdated, REWARDS_FRESH_MS) };
+      if (result[address].stale) stale++;
     }
   }
+  if (stale > 0) revalidateCaches();
   
   return c.json({
     data: result,
     count: Object.keys(result).length,
+    stale,
     lastRefresh: lastRewardsRefresh,
     nextRefresh: lastRewardsRefresh + REWARDS_REFRESH_MS,
     filter: chainFilter || null,
@@ -1667,11 +2445,15 @@ app.get('/cache/all', async (c) => {
       tokens = await sql`SELECT address, chain, name, symbol, nft_collection, image_url, deployed_at, website_url, twitter_url, telegram_url, discord_url, deployer, is_verified, collection_id FROM tokens ORDER BY deployed_at DESC`;
     }
     
-    // Combine with cache data
+    // Combine with cache data; stale entries are served as they are and refreshed behind
+    let stale = 0;
     const combined = tokens.map((token: any) => {
       const cacheKey = `${token.chain}:${token.address.toLowerCase()}`;
       const market = marketCache.get(cacheKey);
       const rewards = rewardsCache.get(cacheKey);
+      const marketAge = market ? cacheAge(market.lastUpdated, MARKET_FRESH_MS) : null;
+      const rewardsAge = rewards ? cacheAge(rewards.lastUpdated, REWARDS_FRESH_MS) : null;
+      if (marketAge?.stale || rewardsAge?.stale) stale++;
       
       return {
         address: token.address,
@@ -1690,19 +2472,25 @@ app.get('/cache/all', async (c) => {
         collectionId: token.collection_id || null,
         market: market ? {
           priceUsd: market.priceUsd,
+          priceEth: market.priceEth,
           priceChange24h: market.priceChange24h,
           volume24h: market.volume24h,
           marketCap: market.marketCap,
           fdv: market.fdv,
           liquidity: market.liquidity,
+          source: market.source,
+          ...marketAge,
         } : null,
         rewards: rewards ? {
           totalRewards: rewards.totalRewards,
           accRewardPerNFT: rewards.accRewardPerNFT,
           nftSupply: rewards.nftSupply,
+          blockNumber: rewards.blockNumber,
+          ...rewardsAge,
         } : null,
       };
     });
+    if (stale > 0) revalidateCaches();
     
     return c.json({
       tokens: combined,
@@ -1710,6 +2498,9 @@ app.get('/cache/all', async (c) => {
       cache: {
         marketLastRefresh: lastMarketRefresh,
         rewardsLastRefresh: lastRewardsRefresh,
+        marketFreshMs: MARKET_FRESH_MS,
+        rewardsFreshMs: REWARDS_FRESH_MS,
+        stale,
       },
       filter: chainFilter || null,
     });
@@ -1736,6 +2527,10 @@ app.get('/cache/token/:address', async (c) => {
     const cacheKey = `${token.chain}:${address}`;
     const market = marketCache.get(cacheKey);
     const rewards = rewardsCache.get(cacheKey);
+    if ((market && Date.now() - market.lastUpdated > MARKET_FRESH_MS) ||
+        (rewards && Date.now() - rewards.lastUpdated > REWARDS_FRESH_MS)) {
+      revalidateCaches();
+    }
     
     return c.json({
       token: {
@@ -1754,8 +2549,8 @@ app.get('/cache/token/:address', async (c) => {
         isVerified: token.is_verified || false,
         collectionId: token.collection_id || null,
       },
-      market: market || null,
-      rewards: rewards || null,
+      market: market ? { ...market, ...cacheAge(market.lastUpdated, MARKET_FRESH_MS) } : null,
+      rewards: rewards ? { ...rewards, ...cacheAge(rewards.lastUpdated, REWARDS_FRESH_MS) } : null,
     });
   } catch (e: any) {
     console.error('Cache/token error:', e);
@@ -1787,16 +2582,29 @@ app.get('/cache/status', (c) => {
       lastRefresh: lastMarketRefresh,
       nextRefresh: lastMarketRefresh + MARKET_DATA_REFRESH_MS,
       stale: now - lastMarketRefresh > MARKET_DATA_REFRESH_MS,
+      staleEntries: [...marketCache.values()].filter(m => now - m.lastUpdated > MARKET_FRESH_MS).length,
       refreshIntervalMs: MARKET_DATA_REFRESH_MS,
+      freshMs: MARKET_FRESH_MS,
+      refreshInProgress: marketRefreshInProgress,
+      providers: getProviderHealth(),
+      // Provider serving each token, keyed chain:address
+      sources: Object.fromEntries(
+        [...marketCache.entries()].map(([key, data]) => [key, { source: data.source, lastUpdated: data.lastUpdated }])
+      ),
     },
     rewards: {
       entries: rewardsCache.size,
       lastRefresh: lastRewardsRefresh,
       nextRefresh: lastRewardsRefresh + REWARDS_REFRESH_MS,
       stale: now - lastRewardsRefresh > REWARDS_REFRESH_MS,
+      staleEntries: [...rewardsCache.values()].filter(r => now - r.lastUpdated > REWARDS_FRESH_MS).length,
       refreshIntervalMs: REWARDS_REFRESH_MS,
+      freshMs: REWARDS_FRESH_MS,
+      refreshInProgress: rewardsRefreshInProgress,
+      snapshotBlocks: rewardsSnapshotBlocks,
     },
     refreshInProgress: cacheRefreshInProgress,
+    maxRestoreAgeMs: CACHE_MAX_AGE_MS,
     timestamp: now,
   });
 });
@@ -1834,6 +2642,7 @@ app.get('/config', (c) => {
         hook: CHAIN_CONFIGS[chain].hook,
         treasury: CHAIN_CONFIGS[chain].treasury,
         contractsDeployed: isChainActive(chain),
+        versions: getContractVersions(chain),
       },
     ])
   );
@@ -1859,13 +2668,13 @@ app.get('/contracts', async (c) => {
     }
     
     const contracts = await sql`
-      SELECT chain, contract_name, address, deployed_at, deploy_tx_hash, notes, created_at 
+      SELECT chain, contract_name, address, version, start_block, end_block, deployed_at, deploy_tx_hash, notes, created_at 
       FROM contract_addresses 
       WHERE chain = ${chain}
-      ORDER BY contract_name
+      ORDER BY contract_name, version
     `;
     
-    // Also return as object keyed by contract_name for easy lookup
+    // Also return as object keyed by contract_name for easy lookup (latest version wins)
     const addresses: Record<string, string> = {};
     for (const contract of contracts) {
       addresses[contract.contract_name] = contract.address;
@@ -2024,8 +2833,20 @@ io.on('connection', (socket) => {
   // Join 'all' room by default for global events
   socket.join('all');
   
-  // Subscribe to a collection for real-time updates
-  socket.on('subscribe:collection', (collectionSlug: string) => {
+  // Subscribe to a collection for real-time updates: an NFT contract
+  // (`<chainId>:<address>`, or a bare address on Base) joins its cache room
+  // (market/rewards diffs of every linked token, snapshot in the ack);
+  // anything else is an OpenSea slug
+  socket.on('subscribe:collection', (collectionSlug: string, ack?: (snapshot: any) => void) => {
+    const room = collectionRoom(collectionSlug);
+    if (room) {
+      socket.join(room);
+      if (typeof ack === 'function') {
+        ack(cacheSnapshot([...tokenCollections.keys()].filter(key => collectionRooms(key).includes(room))));
+      }
+      return;
+    }
+    
     console.log(`📡 ${socket.id} subscribed to collection: ${collectionSlug}`);
     socket.join(collectionSlug);
     
@@ -2035,6 +2856,12 @@ io.on('connection', (socket) => {
   
   // Unsubscribe from a collection
   socket.on('unsubscribe:collection', (collectionSlug: string) => {
+    const room = collectionRoom(collectionSlug);
+    if (room) {
+      socket.leave(room);
+      return;
+    }
+    
     console.log(`📴 ${socket.id} unsubscribed from collection: ${collectionSlug}`);
     socket.leave(collectionSlug);
     
@@ -2045,6 +2872,26 @@ io.on('connection', (socket) => {
     }
   });
   
+  // Subscribe to swaps, fees, claims and market/rewards diffs of one token.
+  // The ack gets the token's cached state, taken after joining so no diff is missed.
+  socket.on('subscribe:token', (tokenAddress: string, ack?: (snapshot: any) => void) => {
+    if (typeof tokenAddress !== 'string') return;
+    const address = tokenAddress.toLowerCase();
+    socket.join(`token:${address}`);
+    if (typeof ack === 'function') {
+      ack(cacheSnapshot(
+        getActiveChains()
+          .map(chain => `${chain}:${address}`)
+          .filter(key => marketCache.has(key) || rewardsCache.has(key))
+      ));
+    }
+  });
+
+  socket.on('unsubscribe:token', (tokenAddress: string) => {
+    if (typeof tokenAddress !== 'string') return;
+    socket.leave(`token:${tokenAddress.toLowerCase()}`);
+  });
+
   // Get stream status
   socket.on('stream:status', (callback: (status: any) => void) => {
     callback(getStreamStatus());
@@ -2058,6 +2905,13 @@ io.on('connection', (socket) => {
 // Set Socket.IO server for OpenSea stream to broadcast events
 setSocketIoServer(io);
 
+// Relay events published by the indexer process (new tokens, swaps, fees, claims)
+if (sql) {
+  subscribeEvents(sql, handleDomainEvent).catch((e: any) => {
+    console.error('⚠️ Event bus subscription failed (real-time indexer events disabled):', e.message);
+  });
+}
+
 // Initialize OpenSea Stream API (OPTIONAL - failures won't crash the server)
 try {
   initOpenSeaStream();
@@ -0,0 +1,63 @@
+// Per-chain viem clients and checkpoint naming for the indexer workers
+import { createPublicClient, http, type Chain, type PublicClient } from 'viem';
+import { base, mainnet } from 'viem/chains';
+import { CHAIN_CONFIGS, getRpcUrl, type SupportedChain } from '../config.js';
+
+const VIEM_CHAINS: Record<SupportedChain, Chain> = {
+  base,
+  ethereum: mainnet,
+};
+
+// Alchemy hosts used when only ALCHEMY_API_KEY is configured
+export const ALCHEMY_HOSTS: Record<SupportedChain, string> = {
+  base: 'base-mainnet.g.alchemy.com',
+  ethereum: 'eth-mainnet.g.alchemy.com',
+};
+
+const clients = new Map<SupportedChain, PublicClient>();
+
+/**
+ * Resolve the RPC URL for a chain (explicit env var first, then Alchemy key)
+ */
+export function resolveRpcUrl(chain: SupportedChain): string | null {
+  const explicit = getRpcUrl(chain);
+  if (explicit) return explicit;
+
+  const alchemyKey = process.env.ALCHEMY_API_KEY;
+  if (alchemyKey) return `https://${ALCHEMY_HOSTS[chain]}/v2/${alchemyKey}`;
+
+  return null;
+}
+
+/**
+ * Get (or lazily create) the viem client for a chain
+ */
+export function getChainClient(chain: SupportedChain): PublicClient | null {
+  const existing = clients.get(chain);
+  if (existing) return existing;
+
+  const rpcUrl = resolveRpcUrl(chain);
+  if (!rpcUrl) {
+    console.warn(`⚠️ ${CHAIN_CONFIGS[chain].name} RPC not configured (${CHAIN_CONFIGS[chain].rpcEnvKey})`);
+    return null;
+  }
+
+  const client = createPublicClient({
+    chain: VIEM_CHAINS[chain],
+    transport: http(rpcUrl),
+  }) as PublicClient;
+  clients.set(chain, client);
+  return client;
+}
+
+/**
+ * indexer_state row id for a job on a chain, e.g. `base:factory`
+ */
+export function checkpointId(chain: SupportedChain, job: string): string {
+  return `${chain}:${job}`;
+}
+
+// Mask API keys before logging an RPC URL
+export function redactRpcUrl(url: string): string {
+  return url.replace(/\/v2\/[^/]+$/, '/v2/***');
+}
@@ -0,0 +1,526 @@
+// Operator CLI - `npm run indexer -- <command>`
+//
+// Every command works on top of the regular jobs: inserts are idempotent, so
+// reindexing alongside a running indexer is safe, and one-off scans never move
+// the jobs' checkpoints.
+import { decodeEventLog, formatEther, type Address, type PublicClient } from 'viem';
+import {
+  getActiveChains,
+  getContractVersions,
+  validateChain,
+  getContractDeployment,
+  CHAIN_CONFIGS,
+  type ContractDeployment,
+  type ProtocolVersion,
+  type SupportedChain,
+} from '../config.js';
+import {
+  sql,
+  getTokenByAddress,
+  getPoolTokens,
+  getIndexerState,
+  updateIndexerState,
+  getChainCheckpoints,
+  getChainCounts,
+  deleteChainRange,
+  getTradedTokensInRange,
+} from '../db/index.js';
+import { getChainClient, checkpointId } from './chains.js';
+import { indexFactoryRange, factoryJob, TokenDeployedEvent } from './factory.js';
+import {
+  fetchSwapRange,
+  writeSwaps,
+  publishSwaps,
+  decodeSwapAmounts,
+  SwapEvent,
+  SWAPS_JOB,
+} from './swaps.js';
+import {
+  fetchFeeDistributorRange,
+  writeFeeDistributorRows,
+  publishFeeDistributorRows,
+  distributorJob,
+  FEE_DISTRIBUTOR_JOB,
+  FeesReceivedEvent,
+  FeesClaimedEvent,
+  type FeeDistributorRows,
+} from './fees.js';
+import { rebuildCandles } from './ohlcv.js';
+import { materializeStats } from './stats.js';
+import { getSafeHead } from './reorg.js';
+import { scanRange } from './logs.js';
+
+type Job = 'factory' | 'swaps' | 'fees';
+const ALL_JOBS: Job[] = ['factory', 'swaps', 'fees'];
+
+const USAGE = `Usage: npm run indexer -- <command> [options]
+
+Commands:
+  status [--chain <chain>]                       Checkpoints, lag and row counts per chain and job
+  reindex <chain> <fromBlock> <toBlock>          Delete and re-ingest a block range
+      [--jobs factory,swaps,fees]
+  reindex-token <address>                        Re-ingest one token: deploy event, swaps, fees and claims
+  reset <chain> <job> [block]                    Move a checkpoint (default 0 = restart from the job's start block)
+  dry-run <chain> <fromBlock> <toBlock>          Print decoded events in a range without writing them
+      [--jobs factory,swaps,fees]
+
+Jobs in checkpoints: factory:<version>, swaps, fee_distributor:<version>, ohlcv, nft:<collection>`;
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const [key, inline] = arg.slice(2).split('=', 2);
+      flags[key] = inline ?? argv[++i] ?? '';
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, flags };
+}
+
+function parseChain(value: string | undefined): SupportedChain {
+  if (!validateChain(value)) {
+    throw new Error(`Unknown chain "${value ?? ''}" (expected one of: ${Object.keys(CHAIN_CONFIGS).join(', ')})`);
+  }
+  return value;
+}
+
+function parseBlock(value: string | undefined, name: string): bigint {
+  if (!value || !/^\d+$/.test(value)) throw new Error(`${name} must be a block number`);
+  return BigInt(value);
+}
+
+function parseJobs(value: string | undefined): Job[] {
+  if (!value) return ALL_JOBS;
+  const jobs = value.split(',').map(j => j.trim()) as Job[];
+  const unknown = jobs.filter(j => !ALL_JOBS.includes(j));
+  if (unknown.length > 0) throw new Error(`Unknown job(s): ${unknown.join(', ')}`);
+  return jobs;
+}
+
+function requireClient(chain: SupportedChain): PublicClient {
+  const client = getChainClient(chain);
+  if (!client) throw new Error(`No RPC configured for ${chain}`);
+  return client;
+}
+
+// The part of [fromBlock, toBlock] a generation was live for
+function overlap(deployment: ContractDeployment, fromBlock: bigint, toBlock: bigint): [bigint, bigint] | null {
+  const start = BigInt(deployment.startBlock);
+  const end = deployment.endBlock !== null ? BigInt(deployment.endBlock) : toBlock;
+  const from = fromBlock > start ? fromBlock : start;
+  const to = toBlock < end ? toBlock : end;
+  return from <= to ? [from, to] : null;
+}
+
+// Delete and re-insert one sub-range as a unit, so a failed or interrupted
+// reindex leaves the rows it hasn't rewritten yet in place. Logs are fetched
+// before and events published after, keeping RPC calls out of the transaction
+function inTransaction<T>(work: (tx: typeof sql) => Promise<T>): Promise<T> {
+  // postgres.js' TransactionSql type loses its call signature under TS 5
+  return sql.begin(transaction => work(transaction as unknown as typeof sql)) as Promise<T>;
+}
+
+// ============================================
+// status
+// ============================================
+
+async function status(args: ParsedArgs) {
+  const chains = args.flags.chain ? [parseChain(args.flags.chain)] : getActiveChains();
+
+  for (const chain of chains) {
+    const client = getChainClient(chain);
+    const safeHead = client ? await getSafeHead(chain, client).catch(() => null) : null;
+    const counts = await getChainCounts(chain);
+
+    console.log(`\n🔗 ${chain}  safe head: ${safeHead ?? 'unavailable'}`);
+    console.log(
+      `   tokens: ${counts.tokens} (${counts.unenriched} not fully enriched)  ` +
+      `swaps: ${counts.swaps}  fees: ${counts.fees}  claims: ${counts.claims}`
+    );
+
+    const checkpoints = await getChainCheckpoints(chain);
+    if (checkpoints.length === 0) {
+      console.log('   (no checkpoints yet)');
+      continue;
+    }
+    for (const cp of checkpoints) {
+      const job = cp.id.slice(chain.length + 1);
+      const lag = safeHead !== null && safeHead > cp.lastBlock ? `${safeHead - cp.lastBlock} behind` : 'at head';
+      const batch = cp.batchSize ? `  batch ${cp.batchSize}` : '';
+      console.log(
+        `   ${job.padEnd(20)} block ${cp.lastBlock.toString().padEnd(10)} ${lag.padEnd(16)}` +
+        `updated ${cp.lastUpdated.toISOString()}${batch}`
+      );
+    }
+  }
+}
+
+// ============================================
+// reindex <chain> <from> <to>
+// ============================================
+
+async function reindexRange(args: ParsedArgs) {
+  const chain = parseChain(args.positional[0]);
+  const fromBlock = parseBlock(args.positional[1], 'fromBlock');
+  let toBlock = parseBlock(args.positional[2], 'toBlock');
+  const jobs = parseJobs(args.flags.jobs);
+  if (fromBlock > toBlock) throw new Error('fromBlock must not be after toBlock');
+
+  const client = requireClient(chain);
+  const safeHead = await getSafeHead(chain, client);
+  if (toBlock > safeHead) {
+    console.log(`⚠️ toBlock capped to the confirmed head ${safeHead}`);
+    toBlock = safeHead;
+  }
+
+  console.log(`🔁 [${chain}] Reindexing blocks ${fromBlock} - ${toBlock} (${jobs.join(', ')})`);
+
+  if (jobs.includes('factory')) {
+    for (const deployment of getContractVersions(chain)) {
+      const range = overlap(deployment, fromBlock, toBlock);
+      if (!range) continue;
+      const found = await scanRange({
+        stateId: checkpointId(chain, factoryJob(deployment)),
+        label: `[${chain}] reindex factory ${deployment.version}`,
+        fromBlock: range[0],
+        toBlock: range[1],
+        initialBatch: 10000n,
+        maxBatch: 50000n,
+        persist: false,
+        process: (from, to) => indexFactoryRange(chain, deployment, client, from, to, { refresh: true }),
+      });
+      console.log(`📦 factory ${deployment.version}: ${found} deploy events`);
+    }
+  }
+
+  const touched = new Set<string>();
+
+  if (jobs.includes('swaps')) {
+    const swaps = await scanRange({
+      stateId: checkpointId(chain, SWAPS_JOB),
+      label: `[${chain}] reindex swaps`,
+      fromBlock,
+      toBlock,
+      initialBatch: 2000n,
+      maxBatch: 10000n,
+      persist: false,
+      process: async (from, to) => {
+        const swaps = await fetchSwapRange(chain, client, from, to);
+        const written = await inTransaction(async (tx) => {
+          for (const token of await deleteChainRange(chain, from, to, ['swaps'], undefined, tx)) touched.add(token);
+          return writeSwaps(swaps, tx);
+        });
+        await publishSwaps(chain, written);
+        return written.length;
+      },
+    });
+    console.log(`💱 swaps: ${swaps} written`);
+
+    // Tokens that gained swaps in the range need their candles rebuilt as well
+    for (const token of await getTradedTokensInRange(chain, fromBlock, toBlock)) touched.add(token);
+  }
+
+  if (jobs.includes('fees')) {
+    // Fee and claim rows don't record their distributor, so every generation
+    // live in a sub-range is re-ingested together after it is cleared
+    const written = new Map<ProtocolVersion, { fees: number; claims: number }>();
+    await scanRange({
+      stateId: checkpointId(chain, FEE_DISTRIBUTOR_JOB),
+      label: `[${chain}] reindex FeeDistributors`,
+      fromBlock,
+      toBlock,
+      initialBatch: 10000n,
+      maxBatch: 50000n,
+      persist: false,
+      process: async (from, to) => {
+        const fetched = new Map<ProtocolVersion, FeeDistributorRows>();
+        for (const deployment of getContractVersions(chain)) {
+          const range = overlap(deployment, from, to);
+          if (!range) continue;
+          fetched.set(deployment.version, await fetchFeeDistributorRange(chain, deployment, client, range[0], range[1]));
+        }
+        const inserted = await inTransaction(async (tx) => {
+          await deleteChainRange(chain, from, to, ['fees', 'claims'], undefined, tx);
+          const rows = new Map<ProtocolVersion, FeeDistributorRows>();
+          for (const [version, found] of fetched) rows.set(version, await writeFeeDistributorRows(found, tx));
+          return rows;
+        });
+
+        let count = 0;
+        for (const [version, rows] of inserted) {
+          await publishFeeDistributorRows(chain, rows);
+          const total = written.get(version) ?? { fees: 0, claims: 0 };
+          written.set(version, { fees: total.fees + rows.fees.length, claims: total.claims + rows.claims.length });
+          count += rows.fees.length + rows.claims.length;
+        }
+        return count;
+      },
+    });
+    for (const [version, found] of written) {
+      console.log(`💰 FeeDistributor ${version}: ${found.fees} fees, ${found.claims} claims written`);
+    }
+  }
+
+  for (const token of touched) {
+    await rebuildCandles(token);
+  }
+  await materializeStats(chain, client);
+  console.log(`✅ [${chain}] Reindex complete`);
+}
+
+// ============================================
+// reindex-token <address>
+// ============================================
+
+async function reindexToken(args: ParsedArgs) {
+  const address = args.positional[0]?.toLowerCase();
+  if (!address || !/^0x[0-9a-f]{40}$/.test(address)) throw new Error('reindex-token needs a token address');
+
+  const token = await getTokenByAddress(address);
+  if (!token) throw new Error(`Token ${address} is not indexed; run "reindex" over its deploy block instead`);
+
+  const chain = parseChain(token.chain);
+  const client = requireClient(chain);
+  const deployment = getContractDeployment(chain, token.protocol_version as ProtocolVersion | undefined);
+  if (!deployment) throw new Error(`No contract deployment known for ${chain}`);
+  const deployBlock = BigInt(token.deploy_block);
+
+  console.log(`🔁 [${chain}] Reindexing ${token.symbol} (${address}) from block ${deployBlock}`);
+
+  // Deploy event - rewrites the on-chain deployment fields
+  const deployEvents = await indexFactoryRange(chain, deployment, client, deployBlock, deployBlock, {
+    token: address as Address,
+    refresh: true,
+  });
+  if (deployEvents === 0) console.warn(`⚠️ No TokenDeployed event for ${address} at block ${deployBlock}`);
+
+  // Re-ingest up to where each job has got to, so nothing is indexed twice or
+  // skipped; each sub-range's rows are replaced in one transaction
+  const swapsState = await getIndexerState(checkpointId(chain, SWAPS_JOB));
+  if (swapsState?.lastBlock) {
+    const swaps = await scanRange({
+      stateId: checkpointId(chain, SWAPS_JOB),
+      label: `[${chain}] reindex swaps ${address}`,
+      fromBlock: deployBlock,
+      toBlock: swapsState.lastBlock,
+      initialBatch: 10000n,
+      maxBatch: 50000n,
+      persist: false,
+      process: async (from, to) => {
+        const swaps = await fetchSwapRange(chain, client, from, to, address);
+        const written = await inTransaction(async (tx) => {
+          await deleteChainRange(chain, from, to, ['swaps'], address, tx);
+          return writeSwaps(swaps, tx);
+        });
+        await publishSwaps(chain, written);
+        return written.length;
+      },
+    });
+    console.log(`💱 swaps: ${swaps} written`);
+  }
+
+  // The token's fees and claims all go through its own generation's distributor
+  const feeState = await getIndexerState(checkpointId(chain, distributorJob(deployment)));
+  const feeRange = feeState?.lastBlock ? overlap(deployment, deployBlock, feeState.lastBlock) : null;
+  if (feeRange) {
+    let fees = 0;
+    let claims = 0;
+    await scanRange({
+      stateId: checkpointId(chain, distributorJob(deployment)),
+      label: `[${chain}] reindex FeeDistributor ${deployment.version} ${address}`,
+      fromBlock: feeRange[0],
+      toBlock: feeRange[1],
+      initialBatch: 10000n,
+      maxBatch: 50000n,
+      persist: false,
+      process: async (from, to) => {
+        const found = await fetchFeeDistributorRange(chain, deployment, client, from, to, address as Address);
+        const written = await inTransaction(async (tx) => {
+          await deleteChainRange(chain, from, to, ['fees', 'claims'], address, tx);
+          return writeFeeDistributorRows(found, tx);
+        });
+        await publishFeeDistributorRows(chain, written);
+        fees += written.fees.length;
+        claims += written.claims.length;
+        return written.fees.length + written.claims.length;
+      },
+    });
+    console.log(`💰 FeeDistributor ${deployment.version}: ${fees} fees, ${claims} claims written`);
+  }
+
+  await rebuildCandles(address);
+  await materializeStats(chain, client);
+  console.log(`✅ [${chain}] ${address} reindexed`);
+}
+
+// ============================================
+// reset <chain> <job> [block]
+// ============================================
+
+async function resetCheckpoint(args: ParsedArgs) {
+  const chain = parseChain(args.positional[0]);
+  const job = args.positional[1];
+  if (!job) throw new Error('reset needs a job name, e.g. swaps or factory:v2');
+  const block = args.positional[2] !== undefined ? parseBlock(args.positional[2], 'block') : 0n;
+
+  const id = checkpointId(chain, job);
+  const state = await getIndexerState(id);
+  if (!state) {
+    const known = (await getChainCheckpoints(chain)).map(cp => cp.id.slice(chain.length + 1));
+    throw new Error(`No checkpoint "${id}" (known: ${known.join(', ') || 'none'})`);
+  }
+
+  await updateIndexerState(id, block);
+  console.log(`⏪ ${id}: ${state.lastBlock} -> ${block}${block === 0n ? ' (restarts from the job start block)' : ''}`);
+}
+
+// ============================================
+// dry-run <chain> <from> <to>
+// ============================================
+
+async function dryRun(args: ParsedArgs) {
+  const chain = parseChain(args.positional[0]);
+  const fromBlock = parseBlock(args.positional[1], 'fromBlock');
+  const toBlock = parseBlock(args.positional[2], 'toBlock');
+  const jobs = parseJobs(args.flags.jobs);
+  if (fromBlock > toBlock) throw new Error('fromBlock must not be after toBlock');
+
+  const client = requireClient(chain);
+  const pools = new Map((await getPoolTokens(chain)).map(p => [p.poolId, p]));
+
+  console.log(`🔍 [${chain}] Dry run over blocks ${fromBlock} - ${toBlock} (${jobs.join(', ')}), nothing is written`);
+
+  if (jobs.includes('factory')) {
+    for (const deployment of getContractVersions(chain)) {
+      const range = overlap(deployment, fromBlock, toBlock);
+      if (!range) continue;
+      await scanRange({
+        stateId: checkpointId(chain, factoryJob(deployment)),
+        label: `[${chain}] dry-run factory ${deployment.version}`,
+        fromBlock: range[0],
+        toBlock: range[1],
+        initialBatch: 10000n,
+        maxBatch: 50000n,
+        persist: false,
+        process: async (from, to) => {
+          const logs = await client.getLogs({ address: deployment.factory as Address, event: TokenDeployedEvent, fromBlock: from, toBlock: to });
+          for (const log of logs) {
+            const { token, nftCollection, poolId, deployer } = decodeEventLog({ abi: [TokenDeployedEvent], data: log.data, topics: log.topics }).args;
+            console.log(`📦 ${log.blockNumber} TokenDeployed (${deployment.version}) token=${token} nft=${nftCollection} pool=${poolId} deployer=${deployer} tx=${log.transactionHash}`);
+            // Swaps in the same range can belong to a pool that isn't indexed yet
+            if (!pools.has(poolId.toLowerCase() as `0x${string}`)) {
+              pools.set(poolId.toLowerCase() as `0x${string}`, { address: token.toLowerCase(), decimals: 18, poolId, deployBlock: log.blockNumber! });
+            }
+          }
+          return logs.length;
+        },
+      });
+    }
+  }
+
+  if (jobs.includes('swaps') && pools.size > 0) {
+    await scanRange({
+      stateId: checkpointId(chain, SWAPS_JOB),
+      label: `[${chain}] dry-run swaps`,
+      fromBlock,
+      toBlock,
+      initialBatch: 2000n,
+      maxBatch: 10000n,
+      persist: false,
+      process: async (from, to) => {
+        const logs = await client.getLogs({
+          address: CHAIN_CONFIGS[chain].poolManager as Address,
+          event: SwapEvent,
+          args: { id: [...pools.keys()] },
+          fromBlock: from,
+          toBlock: to,
+        });
+        for (const log of logs) {
+          const pool = pools.get(log.args.id!.toLowerCase() as `0x${string}`);
+          const swap = pool ? decodeSwapAmounts(pool, log.args.amount0!, log.args.amount1!) : null;
+          if (!swap) continue;
+          console.log(
+            `💱 ${log.blockNumber} ${swap.isBuy ? 'BUY ' : 'SELL'} ${swap.tokenAddress} ` +
+            `eth=${formatEther(swap.amountEth)} price=${swap.priceEth} tx=${log.transactionHash}`
+          );
+        }
+        return logs.length;
+      },
+    });
+  }
+
+  if (jobs.includes('fees')) {
+    for (const deployment of getContractVersions(chain)) {
+      const range = overlap(deployment, fromBlock, toBlock);
+      if (!range) continue;
+      const address = deployment.feeDistributor as Address;
+      await scanRange({
+        stateId: checkpointId(chain, distributorJob(deployment)),
+        label: `[${chain}] dry-run FeeDistributor ${deployment.version}`,
+        fromBlock: range[0],
+        toBlock: range[1],
+        initialBatch: 10000n,
+        maxBatch: 50000n,
+        persist: false,
+        process: async (from, to) => {
+          const [received, claimed] = await Promise.all([
+            client.getLogs({ address, event: FeesReceivedEvent, fromBlock: from, toBlock: to }),
+            client.getLogs({ address, event: FeesClaimedEvent, fromBlock: from, toBlock: to }),
+          ]);
+          for (const log of received) {
+            console.log(`💰 ${log.blockNumber} FeesReceived (${deployment.version}) token=${log.args.token} amount=${formatEther(log.args.amount!)} ETH tx=${log.transactionHash}`);
+          }
+          for (const log of claimed) {
+            console.log(
+              `💸 ${log.blockNumber} FeesClaimed (${deployment.version}) token=${log.args.token} claimer=${log.args.claimer} ` +
+              `ids=[${log.args.tokenIds!.join(',')}] amount=${formatEther(log.args.amount!)} ETH tx=${log.transactionHash}`
+            );
+          }
+          return received.length + claimed.length;
+        },
+      });
+    }
+  }
+
+  console.log('✅ Dry run complete');
+}
+
+const COMMANDS: Record<string, (args: ParsedArgs) => Promise<void>> = {
+  status,
+  reindex: reindexRange,
+  'reindex-token': reindexToken,
+  reset: resetCheckpoint,
+  'dry-run': dryRun,
+};
+
+/**
+ * Run one operator command and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  const handler = COMMANDS[command];
+  if (!handler) {
+    if (command !== 'help' && command !== '--help') console.error(`Unknown command "${command}"\n`);
+    console.log(USAGE);
+    return command === 'help' || command === '--help' ? 0 : 1;
+  }
+
+  try {
+    await handler(parseArgs(rest));
+    return 0;
+  } catch (e: any) {
+    console.error(`❌ ${command} failed: ${e.shortMessage || e.message}`);
+    return 1;
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,154 @@
+// Token enrichment - fills in what TokenDeployed doesn't carry, retrying until done
+//
+// Steps, in order (later ones build on earlier ones):
+//   metadata         ERC20 name/symbol/decimals, if deploy-time reads failed
+//   collection_name  ERC721 name() of the NFT collection
+//   collection       link tokens.collection_id to a collections row, creating it if needed
+//   image            default tokens.image_url to the collection image (done once
+//                    the collection is linked, even if it has no image)
+// Each pass records which steps are still missing; incomplete tokens are
+// retried with exponential backoff.
+import type { Address, PublicClient } from 'viem';
+import { CHAIN_CONFIGS, type SupportedChain } from '../config.js';
+import type { EnrichmentStep } from '../types/index.js';
+import {
+  getTokensToEnrich,
+  updateTokenMetadata,
+  setTokenCollectionName,
+  getCollection,
+  findOrCreateCollection,
+  linkTokenCollection,
+  setDefaultTokenImage,
+  recordEnrichment,
+} from '../db/index.js';
+import { fetchTokenMetadata, UNKNOWN_METADATA } from './factory.js';
+
+const BATCH_SIZE = 25;
+const ALL_STEPS: EnrichmentStep[] = ['metadata', 'collection_name', 'collection', 'image'];
+const BASE_RETRY_DELAY = 60 * 1000;          // 1 minute
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000;  // 6 hours
+
+const erc721Abi = [
+  { name: 'name', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { name: 'totalSupply', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+] as const;
+
+type EnrichmentToken = Awaited<ReturnType<typeof getTokensToEnrich>>[number];
+
+function nextAttempt(attempts: number): Date {
+  const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempts), MAX_RETRY_DELAY);
+  return new Date(Date.now() + delay);
+}
+
+async function readCollectionName(client: PublicClient, collection: Address): Promise<string | null> {
+  try {
+    const name = await client.readContract({ address: collection, abi: erc721Abi, functionName: 'name' });
+    return name.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function readCollectionSupply(client: PublicClient, collection: Address): Promise<number | null> {
+  try {
+    const supply = await client.readContract({ address: collection, abi: erc721Abi, functionName: 'totalSupply' });
+    return Number(supply);
+  } catch {
+    // Not every ERC721 implements the enumerable extension
+    return null;
+  }
+}
+
+/**
+ * Run every outstanding step for one token. Returns the steps still missing
+ * and the first error seen.
+ */
+async function enrichToken(
+  chain: SupportedChain,
+  client: PublicClient,
+  token: EnrichmentToken
+): Promise<{ missing: EnrichmentStep[]; error: string | null }> {
+  const missing: EnrichmentStep[] = [];
+  let error: string | null = null;
+  const fail = (step: EnrichmentStep, message: string) => {
+    missing.push(step);
+    error ??= `${step}: ${message}`;
+  };
+
+  const chainId = CHAIN_CONFIGS[chain].chainId;
+  const nftCollection = token.nftCollection as Address;
+
+  // metadata
+  if (token.name === UNKNOWN_METADATA.name && token.symbol === UNKNOWN_METADATA.symbol) {
+    const metadata = await fetchTokenMetadata(client, token.address as Address);
+    if (metadata) {
+      await updateTokenMetadata(token.address, metadata);
+      console.log(`🏷️  [${chain}] Metadata resolved for ${token.address}: ${metadata.symbol}`);
+    } else {
+      fail('metadata', 'ERC20 metadata calls failed');
+    }
+  }
+
+  // collection_name - the contract first, an existing collections row as fallback
+  let collectionName = token.nftCollectionName;
+  const existing = await getCollection(nftCollection, chainId);
+  if (!collectionName) {
+    collectionName = (await readCollectionName(client, nftCollection)) ?? existing?.name ?? null;
+    if (collectionName) {
+      await setTokenCollectionName(token.address, collectionName);
+    } else {
+      fail('collection_name', 'ERC721 name() failed and no collections row');
+    }
+  }
+
+  // collection
+  let collection = existing;
+  if (!collection && collectionName) {
+    collection = await findOrCreateCollection(
+      nftCollection,
+      chainId,
+      collectionName,
+      await readCollectionSupply(client, nftCollection)
+    );
+    console.log(`🖼️  [${chain}] Collection row ready for ${collectionName} (${nftCollection})`);
+  }
+  if (collection) {
+    if (token.collectionId !== collection.id) await linkTokenCollection(token.address, collection.id);
+  } else {
+    fail('collection', 'no collection name to create the row with');
+  }
+
+  // image - a linked collection without an image is final, not worth retrying
+  if (!token.imageUrl) {
+    if (collection?.imageUrl) {
+      await setDefaultTokenImage(token.address, collection.imageUrl);
+    } else if (!collection) {
+      fail('image', 'no collection to take the image from');
+    }
+  }
+
+  return { missing, error };
+}
+
+/**
+ * Work through tokens on a chain that still have enrichment steps due
+ */
+export async function enrichTokens(chain: SupportedChain, client: PublicClient) {
+  const tokens = await getTokensToEnrich(chain, BATCH_SIZE);
+  let completed = 0;
+
+  for (const token of tokens) {
+    try {
+      const { missing, error } = await enrichToken(chain, client, token);
+      await recordEnrichment(token.address, missing, error, missing.length > 0 ? nextAttempt(token.attempts) : null);
+      if (missing.length === 0) completed++;
+    } catch (e: any) {
+      await recordEnrichment(token.address, token.missing ?? ALL_STEPS, e.message, nextAttempt(token.attempts));
+      console.error(`[${chain}] Enrichment error for ${token.address}:`, e.message);
+    }
+  }
+
+  if (tokens.length > 0) {
+    console.log(`✨ [${chain}] Enriched ${completed}/${tokens.length} tokens`);
+  }
+}
@@ -0,0 +1,122 @@
+// ETH/USD history and USD values of indexed swaps and fees
+//
+// Every tick: a sample at the chain head when the last one is older than
+// SAMPLE_INTERVAL_MS, then swaps.price_usd / fees.fee_amount_usd for rows that
+// don't have one yet. Rows are grouped into BUCKET_MS buckets; a bucket without
+// a sample gets one read at the block of its first row, so backfilled history
+// is valued at the price of its time.
+import { formatEther, type PublicClient } from 'viem';
+import type { SupportedChain } from '../config.js';
+import type { EthUsdPrice } from '../types/index.js';
+import {
+  insertEthUsdPrice,
+  getLatestEthUsdPrice,
+  getEthUsdPrices,
+  getUnpricedEvents,
+  setUsdValues,
+} from '../db/index.js';
+import { readEthUsd, nearestEthUsd } from '../prices.js';
+
+const SAMPLE_INTERVAL_MS = 10 * 60 * 1000;  // 10 minutes
+const BUCKET_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 1000;                     // unpriced rows per tick
+
+// Rows after this block are the next ones to value; reset once a pass is done
+// so rows whose block couldn't be priced are retried
+const cursors = new Map<SupportedChain, bigint>();
+
+async function sampleHead(chain: SupportedChain, client: PublicClient) {
+  const latest = await getLatestEthUsdPrice(chain);
+  if (latest && Date.now() - latest.blockTimestamp.getTime() < SAMPLE_INTERVAL_MS) return;
+
+  const block = await client.getBlock();
+  const reading = await readEthUsd(chain, block.number);
+  if (!reading) return;
+
+  await insertEthUsdPrice({
+    chain,
+    blockNumber: block.number,
+    blockTimestamp: new Date(Number(block.timestamp) * 1000),
+    priceUsd: reading.priceUsd,
+    source: reading.source,
+  });
+}
+
+/**
+ * Record the ETH/USD price and value new swaps and fees in USD. Failures are
+ * logged, not thrown, so they never hold up the jobs after it in the tick.
+ */
+export async function syncEthUsdPrices(chain: SupportedChain, client: PublicClient) {
+  try {
+    await sampleHead(chain, client);
+    await valueEvents(chain);
+  } catch (e: any) {
+    console.warn(`⚠️ [${chain}] ETH/USD sync failed:`, e.shortMessage || e.message);
+  }
+}
+
+// Fill in USD values for the next batch of unpriced swaps and fees
+async function valueEvents(chain: SupportedChain) {
+  const cursor = cursors.get(chain) ?? 0n;
+  const events = await getUnpricedEvents(chain, cursor, BATCH_SIZE);
+  if (events.length === 0) {
+    cursors.delete(chain);
+    return;
+  }
+
+  const first = events[0].blockTimestamp.getTime();
+  const last = events[events.length - 1].blockTimestamp.getTime();
+  const samples = await getEthUsdPrices(chain, new Date(first - BUCKET_MS), new Date(last + BUCKET_MS));
+
+  const buckets = new Map<number, typeof events>();
+  for (const event of events) {
+    const bucket = Math.floor(event.blockTimestamp.getTime() / BUCKET_MS);
+    buckets.set(bucket, [...(buckets.get(bucket) || []), event]);
+  }
+
+  const values = { swap: [] as [string, string][], fee: [] as [string, string][] };
+  let unpriced = 0;
+
+  for (const bucketEvents of buckets.values()) {
+    const anchor = bucketEvents[0];
+    let sample: EthUsdPrice | null = nearestEthUsd(samples, anchor.blockTimestamp);
+    if (!sample || Math.abs(sample.blockTimestamp.getTime() - anchor.blockTimestamp.getTime()) > BUCKET_MS) {
+      const reading = await readEthUsd(chain, anchor.blockNumber);
+      if (reading) {
+        sample = {
+          chain,
+          blockNumber: anchor.blockNumber,
+          blockTimestamp: anchor.blockTimestamp,
+          priceUsd: reading.priceUsd,
+          source: reading.source,
+        };
+        await insertEthUsdPrice(sample);
+        samples.push(sample);
+        samples.sort((a, b) => a.blockTimestamp.getTime() - b.blockTimestamp.getTime());
+      } else {
+        sample = null;
+      }
+    }
+    if (!sample) {
+      unpriced += bucketEvents.length;
+      continue;
+    }
+
+    for (const event of bucketEvents) {
+      const eth = event.kind === 'swap' ? parseFloat(event.amount) : parseFloat(formatEther(BigInt(event.amount)));
+      values[event.kind].push([event.id, String(eth * sample.priceUsd)]);
+    }
+  }
+
+  await setUsdValues('swap', values.swap);
+  await setUsdValues('fee', values.fee);
+
+  // A full batch may end part way through a block
+  const lastBlock = events[events.length - 1].blockNumber;
+  cursors.set(chain, events.length < BATCH_SIZE ? lastBlock : lastBlock - 1n);
+
+  console.log(
+    `💵 [${chain}] Valued ${values.swap.length} swaps and ${values.fee.length} fees in USD` +
+    (unpriced > 0 ? ` (${unpriced} without an ETH/USD price)` : '')
+  );
+}
@@ -0,0 +1,236 @@
+// Factory indexer - TokenDeployed events per chain
+import { parseAbiItem, decodeEventLog, type Log, type Address, type PublicClient } from 'viem';
+import { getContractVersions, type ContractDeployment, type SupportedChain } from '../config.js';
+import type { Token } from '../types/index.js';
+import { sql, insertToken, tagTokenVersion, updateTokenDeployment, getIndexerState } from '../db/index.js';
+import { publishEvent } from '../events.js';
+import { checkpointId } from './chains.js';
+import { getSafeHead, trackBlocks, isLiveBlock } from './reorg.js';
+import { scanRange } from './logs.js';
+
+export const FACTORY_JOB = 'factory';
+
+// Checkpoint job name for one factory generation, e.g. `factory:v1`
+export function factoryJob(deployment: ContractDeployment): string {
+  return `${FACTORY_JOB}:${deployment.version}`;
+}
+
+// Clamp a scan target to the generation's block range
+function scanEnd(deployment: ContractDeployment, head: bigint): bigint {
+  if (deployment.endBlock === null) return head;
+  const end = BigInt(deployment.endBlock);
+  return end < head ? end : head;
+}
+
+// Correct event signature per task
+export const TokenDeployedEvent = parseAbiItem(
+  'event TokenDeployed(address indexed token, address indexed nftCollection, bytes32 poolId, address deployer)'
+);
+
+// ERC20 ABI for fetching token details
+const erc20Abi = [
+  { name: 'name', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { name: 'symbol', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  { name: 'decimals', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint8' }] },
+] as const;
+
+// Placeholder stored when metadata can't be read at deploy time; the
+// enrichment job keeps retrying tokens that still carry it
+export const UNKNOWN_METADATA = { name: 'Unknown', symbol: 'UNKNOWN', decimals: 18 };
+
+// Fetch token metadata from contract, null if the calls fail
+export async function fetchTokenMetadata(client: PublicClient, tokenAddress: Address) {
+  try {
+    const [name, symbol, decimals] = await Promise.all([
+      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'name' }),
+      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'symbol' }),
+      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+    return { name, symbol, decimals };
+  } catch (e: any) {
+    console.warn(`Failed to fetch metadata for ${tokenAddress}:`, e.shortMessage || e.message);
+    return null;
+  }
+}
+
+// Process TokenDeployed event. With `refresh`, a token that already exists gets
+// its on-chain deployment fields rewritten from the event (operator reindex).
+export async function handleTokenDeployed(
+  chain: SupportedChain,
+  deployment: ContractDeployment,
+  client: PublicClient,
+  log: Log,
+  refresh = false
+) {
+  let row: Omit<Token, 'id'> | null = null;
+
+  try {
+    const decoded = decodeEventLog({
+      abi: [TokenDeployedEvent],
+      data: log.data,
+      topics: log.topics,
+    });
+
+    const { token, nftCollection, poolId, deployer } = decoded.args as {
+      token: Address;
+      nftCollection: Address;
+      poolId: `0x${string}`;
+      deployer: Address;
+    };
+
+    console.log(`📦 [${chain}] TokenDeployed (${deployment.version}): ${token}`);
+    console.log(`   NFT Collection: ${nftCollection}`);
+    console.log(`   Pool ID: ${poolId}`);
+    console.log(`   Deployer: ${deployer}`);
+    console.log(`   Block: ${log.blockNumber}`);
+    console.log(`   TX: ${log.transactionHash}`);
+
+    // Get block timestamp
+    const block = await client.getBlock({ blockNumber: log.blockNumber! });
+
+    // Fetch token metadata
+    const metadata = (await fetchTokenMetadata(client, token)) ?? UNKNOWN_METADATA;
+
+    row = {
+      address: token.toLowerCase(),
+      chain,
+      name: metadata.name,
+      symbol: metadata.symbol,
+      decimals: metadata.decimals,
+      nftCollection: nftCollection.toLowerCase(),
+      nftCollectionName: undefined,
+      poolAddress: undefined,
+      poolId: poolId,
+      deployer: deployer.toLowerCase(),
+      deployedAt: new Date(Number(block.timestamp) * 1000),
+      deployTxHash: log.transactionHash!,
+      deployBlock: log.blockNumber!,
+      description: undefined,
+      imageUrl: undefined,
+      websiteUrl: undefined,
+      twitterUrl: undefined,
+      isVerified: false,
+      protocolVersion: deployment.version,
+    };
+
+    // Insert into database
+    await insertToken(row);
+
+    if (isLiveBlock(chain, row.deployBlock)) {
+      await publishEvent(sql, { type: 'token:new', chain, address: row.address, nftCollection: row.nftCollection });
+    }
+
+    console.log(`✅ [${chain}] Token inserted: ${metadata.symbol} (${token})`);
+  } catch (e: any) {
+    if (e.message?.includes('unique constraint')) {
+      if (refresh && row) {
+        await updateTokenDeployment(row);
+        console.log(`♻️  [${chain}] Token deployment refreshed: ${row.address}`);
+        return;
+      }
+      // Tokens indexed before versions were tracked get tagged on re-scan
+      const token = log.topics[1] ? `0x${log.topics[1].slice(26)}` : null;
+      if (token) await tagTokenVersion(token, deployment.version);
+      console.log(`⏭️  Token already exists, skipping`);
+    } else {
+      // Fail the range so scanRange retries it instead of moving past the token
+      console.error(`[${chain}] Error handling TokenDeployed:`, e);
+      throw e;
+    }
+  }
+}
+
+/**
+ * Index TokenDeployed events from one factory between two blocks (inclusive),
+ * optionally only for a single token. Returns the number of events seen.
+ */
+export async function indexFactoryRange(
+  chain: SupportedChain,
+  deployment: ContractDeployment,
+  client: PublicClient,
+  fromBlock: bigint,
+  toBlock: bigint,
+  options: { token?: Address; refresh?: boolean } = {}
+): Promise<number> {
+  const logs = await client.getLogs({
+    address: deployment.factory as Address,
+    event: TokenDeployedEvent,
+    args: options.token ? { token: options.token } : undefined,
+    fromBlock,
+    toBlock,
+  });
+
+  for (const log of logs) {
+    await handleTokenDeployed(chain, deployment, client, log, options.refresh);
+  }
+
+  await trackBlocks(chain, client, logs, toBlock);
+  return logs.length;
+}
+
+// Scan one factory generation from its checkpoint up to `head`
+async function syncDeployment(
+  chain: SupportedChain,
+  deployment: ContractDeployment,
+  client: PublicClient,
+  head: bigint
+): Promise<{ fromBlock: bigint; toBlock: bigint; found: number } | null> {
+  const stateId = checkpointId(chain, factoryJob(deployment));
+  const state = await getIndexerState(stateId);
+  const fromBlock = state?.lastBlock ? state.lastBlock + 1n : BigInt(deployment.startBlock);
+  const toBlock = scanEnd(deployment, head);
+  if (fromBlock > toBlock) return null;
+
+  const found = await scanRange({
+    stateId,
+    label: `[${chain}] factory ${deployment.version}`,
+    fromBlock,
+    toBlock,
+    initialBatch: 10000n,
+    maxBatch: 50000n,
+    process: (from, to) => indexFactoryRange(chain, deployment, client, from, to),
+  });
+
+  return { fromBlock, toBlock, found };
+}
+
+// Backfill historical events for every factory generation up to the confirmed head
+export async function backfill(chain: SupportedChain, client: PublicClient) {
+  const currentBlock = await getSafeHead(chain, client);
+
+  for (const deployment of getContractVersions(chain)) {
+    console.log(`🔄 [${chain}] Starting ${deployment.version} backfill...`);
+    const result = await syncDeployment(chain, deployment, client, currentBlock);
+    if (result) {
+      console.log(`✅ [${chain}] ${deployment.version} backfill of blocks ${result.fromBlock} - ${result.toBlock} complete. Found ${result.found} tokens.`);
+    }
+  }
+}
+
+// Check every factory generation for new events since its last checkpoint
+export async function poll(chain: SupportedChain, client: PublicClient) {
+  const currentBlock = await getSafeHead(chain, client);
+
+  for (const deployment of getContractVersions(chain)) {
+    const result = await syncDeployment(chain, deployment, client, currentBlock);
+    if (result?.found) {
+      console.log(`📦 [${chain}] ${result.found} new ${deployment.version} tokens in blocks ${result.fromBlock} - ${result.toBlock}`);
+    }
+  }
+}
+
+/**
+ * Lowest block every factory generation on a chain has been scanned up to.
+ * Jobs that depend on the token list must not move past it.
+ */
+export async function getFactoryHead(chain: SupportedChain): Promise<bigint | null> {
+  let head: bigint | null = null;
+  for (const deployment of getContractVersions(chain)) {
+    const state = await getIndexerState(checkpointId(chain, factoryJob(deployment)));
+    if (!state?.lastBlock) return null;
+    // Retired generations stop at their endBlock and no longer hold the head back
+    if (deployment.endBlock !== null && state.lastBlock >= BigInt(deployment.endBlock)) continue;
+    if (head === null || state.lastBlock < head) head = state.lastBlock;
+  }
+  return head;
+}
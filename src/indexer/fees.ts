@@ -0,0 +1,270 @@
+// FeeDistributor indexer - FeesReceived / FeesClaimed per protocol generation
+import { parseAbiItem, type Address, type PublicClient } from 'viem';
+import {
+  getContractVersions,
+  FEE_SPLIT_BPS,
+  NATIVE_ETH,
+  type ContractDeployment,
+  type SupportedChain,
+} from '../config.js';
+import type { Fee, Claim } from '../types/index.js';
+import { sql, insertFee, insertClaim, getIndexerState, getIndexedTokens } from '../db/index.js';
+import { publishEvent } from '../events.js';
+import { checkpointId } from './chains.js';
+import { getFactoryHead } from './factory.js';
+import { trackBlocks, isLiveBlock } from './reorg.js';
+import { scanRange } from './logs.js';
+
+export const FEE_DISTRIBUTOR_JOB = 'fee_distributor';
+
+// Largest id claims.token_ids (INTEGER[]) can store
+const MAX_CLAIM_TOKEN_ID = 2n ** 31n - 1n;
+
+export const FeesReceivedEvent = parseAbiItem('event FeesReceived(address indexed token, uint256 amount)');
+export const FeesClaimedEvent = parseAbiItem(
+  'event FeesClaimed(address indexed token, address indexed claimer, uint256[] tokenIds, uint256 amount)'
+);
+
+const feeDistributorAbi = [
+  {
+    name: 'tokenToNftSupply',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const;
+
+// Checkpoint job name for one distributor generation, e.g. `fee_distributor:v2`
+export function distributorJob(deployment: ContractDeployment): string {
+  return `${FEE_DISTRIBUTOR_JOB}:${deployment.version}`;
+}
+
+// NFT supply the fee was split across, read at the block it arrived in
+async function readNftSupply(
+  client: PublicClient,
+  deployment: ContractDeployment,
+  token: Address,
+  blockNumber: bigint
+): Promise<bigint> {
+  const read = (block?: bigint) => client.readContract({
+    address: deployment.feeDistributor as Address,
+    abi: feeDistributorAbi,
+    functionName: 'tokenToNftSupply',
+    args: [token],
+    blockNumber: block,
+  });
+
+  try {
+    return await read(blockNumber);
+  } catch {
+    // Non-archive RPCs can't serve historical state; supply rarely changes
+    return await read();
+  }
+}
+
+async function getBlockTimestamp(client: PublicClient, cache: Map<bigint, Date>, blockNumber: bigint) {
+  let timestamp = cache.get(blockNumber);
+  if (!timestamp) {
+    const block = await client.getBlock({ blockNumber });
+    timestamp = new Date(Number(block.timestamp) * 1000);
+    cache.set(blockNumber, timestamp);
+  }
+  return timestamp;
+}
+
+// Fee and claim rows decoded from one FeeDistributor range
+export interface FeeDistributorRows {
+  fees: Omit<Fee, 'id'>[];
+  claims: Omit<Claim, 'id'>[];
+}
+
+/**
+ * Read and decode fees and claims from one FeeDistributor between two blocks
+ * (inclusive), optionally only for a single token. Nothing is written.
+ */
+export async function fetchFeeDistributorRange(
+  chain: SupportedChain,
+  deployment: ContractDeployment,
+  client: PublicClient,
+  fromBlock: bigint,
+  toBlock: bigint,
+  token?: Address
+): Promise<FeeDistributorRows> {
+  const address = deployment.feeDistributor as Address;
+  const args = token ? { token } : undefined;
+  const [receivedLogs, claimedLogs] = await Promise.all([
+    client.getLogs({ address, event: FeesReceivedEvent, args, fromBlock, toBlock }),
+    client.getLogs({ address, event: FeesClaimedEvent, args, fromBlock, toBlock }),
+  ]);
+  await trackBlocks(chain, client, [...receivedLogs, ...claimedLogs], toBlock);
+
+  const timestamps = new Map<bigint, Date>();
+  const rows: FeeDistributorRows = { fees: [], claims: [] };
+
+  // Rows reference tokens(address); events for tokens we never indexed are
+  // skipped up front, since a failed insert would abort a reindex transaction
+  const indexed = await getIndexedTokens(
+    chain,
+    [...receivedLogs, ...claimedLogs].map(log => log.args.token!.toLowerCase())
+  );
+
+  for (const log of receivedLogs) {
+    const token = log.args.token!;
+    if (!indexed.has(token.toLowerCase())) {
+      console.warn(`⚠️ [${chain}] FeesReceived for unknown token ${token}, skipping`);
+      continue;
+    }
+    const amount = log.args.amount!;
+    const totalNfts = await readNftSupply(client, deployment, token, log.blockNumber!);
+    // FeesReceived carries the full fee; holders get their share spread over the supply
+    const feePerNft = totalNfts > 0n
+      ? (amount * BigInt(FEE_SPLIT_BPS.holders)) / 10000n / totalNfts
+      : 0n;
+
+    rows.fees.push({
+      tokenAddress: token.toLowerCase(),
+      feeAmount: amount.toString(),
+      feeToken: NATIVE_ETH,
+      totalNfts: Number(totalNfts),
+      feePerNft: feePerNft.toString(),
+      txHash: log.transactionHash!,
+      blockNumber: log.blockNumber!,
+      blockTimestamp: await getBlockTimestamp(client, timestamps, log.blockNumber!),
+      logIndex: log.logIndex!,
+    });
+  }
+
+  for (const log of claimedLogs) {
+    const token = log.args.token!;
+    if (!indexed.has(token.toLowerCase())) {
+      console.warn(`⚠️ [${chain}] FeesClaimed for unknown token ${token}, skipping`);
+      continue;
+    }
+    // claims.token_ids is INTEGER[]; a larger id would fail the insert and stall the range
+    if (log.args.tokenIds!.some(id => id > MAX_CLAIM_TOKEN_ID)) {
+      console.warn(`⚠️ [${chain}] FeesClaimed with NFT ids beyond INTEGER range in tx ${log.transactionHash}, skipping`);
+      continue;
+    }
+
+    rows.claims.push({
+      tokenAddress: token.toLowerCase(),
+      claimer: log.args.claimer!.toLowerCase(),
+      tokenIds: log.args.tokenIds!.map(id => Number(id)),
+      amount: log.args.amount!.toString(),
+      claimToken: NATIVE_ETH,
+      txHash: log.transactionHash!,
+      blockNumber: log.blockNumber!,
+      blockTimestamp: await getBlockTimestamp(client, timestamps, log.blockNumber!),
+      logIndex: log.logIndex!,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Insert fees and claims through `db` (a transaction for reindexes). Returns
+ * the ones that were new.
+ */
+export async function writeFeeDistributorRows(rows: FeeDistributorRows, db = sql): Promise<FeeDistributorRows> {
+  const written: FeeDistributorRows = { fees: [], claims: [] };
+  for (const fee of rows.fees) {
+    if (await insertFee(fee, db)) written.fees.push(fee);
+  }
+  for (const claim of rows.claims) {
+    if (await insertClaim(claim, db)) written.claims.push(claim);
+  }
+  return written;
+}
+
+// Announce written fees and claims from live blocks; call once they are committed
+export async function publishFeeDistributorRows(chain: SupportedChain, rows: FeeDistributorRows): Promise<void> {
+  for (const fee of rows.fees) {
+    if (!isLiveBlock(chain, fee.blockNumber)) continue;
+    await publishEvent(sql, {
+      type: 'fee:received',
+      chain,
+      tokenAddress: fee.tokenAddress,
+      feeAmount: fee.feeAmount,
+      feePerNft: fee.feePerNft,
+      totalNfts: fee.totalNfts,
+      txHash: fee.txHash,
+      blockNumber: fee.blockNumber.toString(),
+      blockTimestamp: fee.blockTimestamp.toISOString(),
+      logIndex: fee.logIndex,
+    });
+  }
+  for (const claim of rows.claims) {
+    if (!isLiveBlock(chain, claim.blockNumber)) continue;
+    await publishEvent(sql, {
+      type: 'claim',
+      chain,
+      tokenAddress: claim.tokenAddress,
+      claimer: claim.claimer,
+      tokenIds: claim.tokenIds,
+      amount: claim.amount,
+      txHash: claim.txHash,
+      blockNumber: claim.blockNumber.toString(),
+      blockTimestamp: claim.blockTimestamp.toISOString(),
+      logIndex: claim.logIndex,
+    });
+  }
+}
+
+/**
+ * Index fees and claims from one FeeDistributor between two blocks (inclusive),
+ * optionally only for a single token. Returns the number of fee and claim rows
+ * written.
+ */
+export async function indexFeeDistributorRange(
+  chain: SupportedChain,
+  deployment: ContractDeployment,
+  client: PublicClient,
+  fromBlock: bigint,
+  toBlock: bigint,
+  token?: Address
+): Promise<{ fees: number; claims: number }> {
+  const rows = await fetchFeeDistributorRange(chain, deployment, client, fromBlock, toBlock, token);
+  const written = await writeFeeDistributorRows(rows);
+  await publishFeeDistributorRows(chain, written);
+  return { fees: written.fees.length, claims: written.claims.length };
+}
+
+/**
+ * Backfill and follow every FeeDistributor generation on a chain, never past
+ * what the factory job has covered (fees reference indexed tokens)
+ */
+export async function syncFeeDistributors(chain: SupportedChain, client: PublicClient) {
+  const factoryHead = await getFactoryHead(chain);
+  if (factoryHead === null) return;
+
+  for (const deployment of getContractVersions(chain)) {
+    const stateId = checkpointId(chain, distributorJob(deployment));
+    const state = await getIndexerState(stateId);
+    const fromBlock = state?.lastBlock ? state.lastBlock + 1n : BigInt(deployment.startBlock);
+    if (fromBlock > factoryHead) continue;
+
+    let totalFees = 0;
+    let totalClaims = 0;
+
+    await scanRange({
+      stateId,
+      label: `[${chain}] FeeDistributor ${deployment.version}`,
+      fromBlock,
+      toBlock: factoryHead,
+      initialBatch: 10000n,
+      maxBatch: 50000n,
+      process: async (from, to) => {
+        const found = await indexFeeDistributorRange(chain, deployment, client, from, to);
+        totalFees += found.fees;
+        totalClaims += found.claims;
+        return found.fees + found.claims;
+      },
+    });
+
+    if (totalFees > 0 || totalClaims > 0) {
+      console.log(`💰 [${chain}] FeeDistributor ${deployment.version}: ${totalFees} fees, ${totalClaims} claims indexed`);
+    }
+  }
+}
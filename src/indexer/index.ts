@@ -1,222 +1,114 @@
-import { createPublicClient, http, parseAbiItem, decodeEventLog, type Log, type Address } from 'viem';
-import { base } from 'viem/chains';
 import 'dotenv/config';
-import { insertToken, getIndexerState, updateIndexerState, sql } from '../db/index.js';
-
-// Contract addresses
-const FACTORY_ADDRESS = '0x70b17db500Ce1746BB34f908140d0279C183f3eb' as Address;
-const START_BLOCK = 26700000n;
-
-// Correct event signature per task
-const TokenDeployedEvent = parseAbiItem(
-  'event TokenDeployed(address indexed token, address indexed nftCollection, bytes32 poolId, address deployer)'
-);
-
-// ERC20 ABI for fetching token details
-const erc20Abi = [
-  { name: 'name', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
-  { name: 'symbol', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
-  { name: 'decimals', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint8' }] },
-] as const;
-
-// Create viem client with Alchemy
-const ALCHEMY_API_KEY = process.env.ALCHEMY_API_KEY;
-const rpcUrl = ALCHEMY_API_KEY 
-  ? `https://base-mainnet.g.alchemy.com/v2/${ALCHEMY_API_KEY}`
-  : 'https://mainnet.base.org';
-
-const client = createPublicClient({
-  chain: base,
-  transport: http(rpcUrl),
-});
-
-// Fetch token metadata from contract
-async function fetchTokenMetadata(tokenAddress: Address) {
+import type { PublicClient } from 'viem';
+import { getActiveChains, getContractVersions, type SupportedChain } from '../config.js';
+import { getChainClient, resolveRpcUrl, redactRpcUrl } from './chains.js';
+import { backfill, poll } from './factory.js';
+import { syncSwaps } from './swaps.js';
+import { syncFeeDistributors } from './fees.js';
+import { syncEthUsdPrices } from './eth-usd.js';
+import { aggregateCandles } from './ohlcv.js';
+import { materializeStats } from './stats.js';
+import { enrichTokens } from './enrich.js';
+import { syncOwnership } from './nfts.js';
+import { reconcileDistributors } from './solvency.js';
+import { detectReorg } from './reorg.js';
+import { runCli } from './cli.js';
+
+const WATCH_INTERVAL_MS = 30 * 1000;       // 30 seconds
+const BACKFILL_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const RECONCILE_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+interface ChainWorker {
+  chain: SupportedChain;
+  client: PublicClient;
+  running: boolean;
+}
+
+// Run a job unless another one is already in progress for this chain
+async function runExclusive(worker: ChainWorker, label: string, job: () => Promise<void>) {
+  if (worker.running) return;
+  worker.running = true;
   try {
-    const [name, symbol, decimals] = await Promise.all([
-      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'name' }),
-      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'symbol' }),
-      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'decimals' }),
-    ]);
-    return { name, symbol, decimals };
+    await job();
   } catch (e) {
-    console.warn(`Failed to fetch metadata for ${tokenAddress}:`, e);
-    return { name: 'Unknown', symbol: 'UNKNOWN', decimals: 18 };
+    console.error(`[${worker.chain}] ${label} error:`, e);
+  } finally {
+    worker.running = false;
   }
 }
 
-// Process TokenDeployed event
-async function handleTokenDeployed(log: Log) {
-  try {
-    const decoded = decodeEventLog({
-      abi: [TokenDeployedEvent],
-      data: log.data,
-      topics: log.topics,
-    });
-    
-    const { token, nftCollection, poolId, deployer } = decoded.args as {
-      token: Address;
-      nftCollection: Address;
-      poolId: `0x${string}`;
-      deployer: Address;
-    };
-    
-    console.log(`📦 TokenDeployed: ${token}`);
-    console.log(`   NFT Collection: ${nftCollection}`);
-    console.log(`   Pool ID: ${poolId}`);
-    console.log(`   Deployer: ${deployer}`);
-    console.log(`   Block: ${log.blockNumber}`);
-    console.log(`   TX: ${log.transactionHash}`);
-    
-    // Get block timestamp
-    const block = await client.getBlock({ blockNumber: log.blockNumber! });
-    
-    // Fetch token metadata
-    const metadata = await fetchTokenMetadata(token);
-    
-    // Insert into database
-    await insertToken({
-      address: token.toLowerCase(),
-      name: metadata.name,
-      symbol: metadata.symbol,
-      decimals: metadata.decimals,
-      nftCollection: nftCollection.toLowerCase(),
-      nftCollectionName: undefined,
-      poolAddress: undefined,
-      poolId: poolId,
-      deployer: deployer.toLowerCase(),
-      deployedAt: new Date(Number(block.timestamp) * 1000),
-      deployTxHash: log.transactionHash!,
-      deployBlock: log.blockNumber!,
-      description: undefined,
-      imageUrl: undefined,
-      websiteUrl: undefined,
-      twitterUrl: undefined,
-      isVerified: false,
-    });
-    
-    console.log(`✅ Token inserted: ${metadata.symbol} (${token})`);
-  } catch (e: any) {
-    if (e.message?.includes('unique constraint')) {
-      console.log(`⏭️  Token already exists, skipping`);
-    } else {
-      console.error('Error handling TokenDeployed:', e);
-    }
-  }
+// Jobs that follow the factory checkpoint on every tick
+async function syncDependents(chain: SupportedChain, client: PublicClient) {
+  await syncSwaps(chain, client);
+  await aggregateCandles(chain);
+  await syncFeeDistributors(chain, client);
+  await syncEthUsdPrices(chain, client);
+  await materializeStats(chain, client);
+  await enrichTokens(chain, client);
+  await syncOwnership(chain, client);
 }
 
-// Backfill historical events
-async function backfill() {
-  console.log('🔄 Starting backfill...');
-  
-  const state = await getIndexerState('factory');
-  let fromBlock = state?.lastBlock || START_BLOCK;
-  const currentBlock = await client.getBlockNumber();
-  
-  console.log(`📊 From block ${fromBlock} to ${currentBlock}`);
-  
-  const batchSize = 10000n;
-  let totalFound = 0;
-  
-  while (fromBlock < currentBlock) {
-    const toBlock = fromBlock + batchSize > currentBlock ? currentBlock : fromBlock + batchSize;
-    
-    console.log(`🔍 Scanning blocks ${fromBlock} - ${toBlock}...`);
-    
-    try {
-      const logs = await client.getLogs({
-        address: FACTORY_ADDRESS,
-        event: TokenDeployedEvent,
-        fromBlock,
-        toBlock,
-      });
-      
-      if (logs.length > 0) {
-        console.log(`   Found ${logs.length} events`);
-        totalFound += logs.length;
-        
-        for (const log of logs) {
-          await handleTokenDeployed(log);
-        }
-      }
-      
-      // Update state
-      await updateIndexerState('factory', toBlock);
-      fromBlock = toBlock + 1n;
-    } catch (e: any) {
-      console.error(`Error fetching logs:`, e.message);
-      // Reduce batch size on error
-      if (batchSize > 1000n) {
-        console.log('Reducing batch size...');
-      }
-      await new Promise(r => setTimeout(r, 1000));
-    }
+// Start one worker per chain: initial backfill, then polling and periodic re-scan
+async function startWorker(chain: SupportedChain) {
+  const client = getChainClient(chain);
+  if (!client) return;
+
+  for (const deployment of getContractVersions(chain)) {
+    console.log(`📍 [${chain}] Factory ${deployment.version}: ${deployment.factory}`);
   }
-  
-  console.log(`✅ Backfill complete. Found ${totalFound} tokens.`);
-}
+  console.log(`🔗 [${chain}] RPC: ${redactRpcUrl(resolveRpcUrl(chain)!)}`);
 
-// Watch for new events
-async function watch() {
-  console.log('👀 Watching for new events...');
-  
-  // Poll every 30 seconds for new blocks
-  setInterval(async () => {
-    try {
-      const state = await getIndexerState('factory');
-      const lastBlock = state?.lastBlock || START_BLOCK;
-      const currentBlock = await client.getBlockNumber();
-      
-      if (currentBlock > lastBlock) {
-        console.log(`🔍 Checking blocks ${lastBlock + 1n} - ${currentBlock}`);
-        
-        const logs = await client.getLogs({
-          address: FACTORY_ADDRESS,
-          event: TokenDeployedEvent,
-          fromBlock: lastBlock + 1n,
-          toBlock: currentBlock,
-        });
-        
-        for (const log of logs) {
-          await handleTokenDeployed(log);
-        }
-        
-        await updateIndexerState('factory', currentBlock);
-      }
-    } catch (e) {
-      console.error('Watch error:', e);
-    }
-  }, 30000);
-}
+  const worker: ChainWorker = { chain, client, running: false };
 
-// Schedule periodic indexer run (every 5 minutes as per task)
-function scheduleIndexer() {
-  const FIVE_MINUTES = 5 * 60 * 1000;
-  
-  console.log('⏰ Scheduling indexer to run every 5 minutes');
-  
-  setInterval(async () => {
-    console.log('🔄 Running scheduled index...');
-    await backfill();
-  }, FIVE_MINUTES);
+  // Run initial backfill
+  await runExclusive(worker, 'Backfill', async () => {
+    await detectReorg(chain, client);
+    await backfill(chain, client);
+    await syncDependents(chain, client);
+  });
+
+  // Poll for new blocks
+  console.log(`👀 [${chain}] Watching for new events...`);
+  setInterval(() => {
+    runExclusive(worker, 'Watch', async () => {
+      await detectReorg(chain, client);
+      await poll(chain, client);
+      await syncDependents(chain, client);
+    });
+  }, WATCH_INTERVAL_MS);
+
+  // Schedule periodic backfill runs
+  console.log(`⏰ [${chain}] Scheduling indexer to run every 5 minutes`);
+  setInterval(() => {
+    console.log(`🔄 [${chain}] Running scheduled index...`);
+    runExclusive(worker, 'Backfill', async () => {
+      await detectReorg(chain, client);
+      await backfill(chain, client);
+    });
+  }, BACKFILL_INTERVAL_MS);
+
+  // Check distributor balances against what holders are owed
+  setInterval(() => {
+    runExclusive(worker, 'Reconcile', () => reconcileDistributors(chain, client));
+  }, RECONCILE_INTERVAL_MS);
 }
 
 // Main
 async function main() {
   console.log('🚀 cc0strategy Indexer Starting...');
-  console.log(`📍 Factory: ${FACTORY_ADDRESS}`);
-  console.log(`🔗 RPC: ${rpcUrl.replace(ALCHEMY_API_KEY || '', '***')}`);
-  
-  // Run initial backfill
-  await backfill();
-  
-  // Start watching for new events
-  watch();
-  
-  // Schedule periodic runs
-  scheduleIndexer();
-  
+
+  const chains = getActiveChains();
+  console.log(`📋 Active chains: ${chains.join(', ') || 'none'}`);
+
+  await Promise.all(chains.map(startWorker));
+
   console.log('✅ Indexer running');
 }
 
-main().catch(console.error);
+// `npm run indexer -- <command>` runs a one-off operator command instead
+const command = process.argv.slice(2);
+if (command.length > 0) {
+  runCli(command).then(code => process.exit(code));
+} else {
+  main().catch(console.error);
+}
@@ -0,0 +1,125 @@
+// Adaptive block range scanner shared by all indexer jobs
+//
+// Providers reject getLogs calls that span too many blocks or return too many
+// results (and Ethereum archive queries simply time out). The scanner bisects
+// the range when that happens, grows it back after a run of successes, retries
+// other failures with backoff, and checkpoints after every sub-range so a
+// restart resumes exactly where it stopped.
+import { getIndexerState, updateIndexerState } from '../db/index.js';
+
+const MIN_BATCH = 1n;
+const GROW_AFTER_SUCCESSES = 5;
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY = 1000;  // 1 second
+const MAX_RETRY_DELAY = 30000;  // 30 seconds
+
+// Provider messages that mean "ask for a smaller range" (rate limits are not
+// among them - those are retried with backoff at the same size)
+const RANGE_ERROR_PATTERNS = [
+  /too many (results|logs)/i,
+  /query returned more than/i,
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /limited to/i,
+  /max(imum)? (results|range|block)/i,
+  /response size/i,
+  /timeout/i,
+  /timed out/i,
+  /took too long/i,
+  /status: 413/i,
+];
+
+// Current range size per checkpoint, kept across runs of the same process
+const batchSizes = new Map<string, bigint>();
+
+export interface RangeScan {
+  // indexer_state row the scan advances
+  stateId: string;
+  // Label for log lines, e.g. `[base] swaps`
+  label: string;
+  fromBlock: bigint;
+  toBlock: bigint;
+  initialBatch: bigint;
+  maxBatch: bigint;
+  // One-off scans (operator reindex, dry runs) leave the checkpoint alone
+  persist?: boolean;
+  // Fetch and persist everything in [fromBlock, toBlock]; returns rows found.
+  // Must be idempotent - a failed sub-range is retried, possibly split.
+  process: (fromBlock: bigint, toBlock: bigint) => Promise<number>;
+}
+
+export function isRangeError(e: any): boolean {
+  const text = [e?.shortMessage, e?.message, e?.details, e?.cause?.message]
+    .filter(Boolean)
+    .join(' ');
+  return RANGE_ERROR_PATTERNS.some(pattern => pattern.test(text));
+}
+
+// Exponential backoff with ±20% jitter: 1s, 2s, 4s, ... capped at 30s
+function retryDelay(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempt - 1), MAX_RETRY_DELAY);
+  const jitter = delay * 0.2 * (Math.random() - 0.5);
+  return Math.floor(delay + jitter);
+}
+
+async function loadBatchSize(scan: RangeScan): Promise<bigint> {
+  const known = batchSizes.get(scan.stateId);
+  if (known) return known;
+
+  // Resume with the size that last worked for this checkpoint
+  const state = await getIndexerState(scan.stateId);
+  const stored = state?.batchSize ? BigInt(state.batchSize) : scan.initialBatch;
+  return stored > scan.maxBatch ? scan.maxBatch : stored;
+}
+
+/**
+ * Walk [fromBlock, toBlock] in adaptive sub-ranges, checkpointing after each.
+ * Throws once a sub-range has failed MAX_RETRIES times; the next run resumes
+ * from the last checkpoint. Returns the total rows found.
+ */
+export async function scanRange(scan: RangeScan): Promise<number> {
+  let batch = await loadBatchSize(scan);
+  let fromBlock = scan.fromBlock;
+  let total = 0;
+  let successes = 0;
+  let attempt = 0;
+
+  while (fromBlock <= scan.toBlock) {
+    const end = fromBlock + batch - 1n;
+    const toBlock = end > scan.toBlock ? scan.toBlock : end;
+
+    try {
+      total += await scan.process(fromBlock, toBlock);
+      if (scan.persist !== false) await updateIndexerState(scan.stateId, toBlock, Number(batch));
+      fromBlock = toBlock + 1n;
+      attempt = 0;
+
+      successes++;
+      if (successes >= GROW_AFTER_SUCCESSES && batch < scan.maxBatch) {
+        batch = batch * 2n > scan.maxBatch ? scan.maxBatch : batch * 2n;
+        successes = 0;
+      }
+    } catch (e: any) {
+      successes = 0;
+
+      if (isRangeError(e) && toBlock > fromBlock) {
+        const half = (toBlock - fromBlock + 1n) / 2n;
+        batch = half > MIN_BATCH ? half : MIN_BATCH;
+        console.log(`✂️  ${scan.label} range ${fromBlock} - ${toBlock} rejected, splitting to ${batch} blocks`);
+        continue;
+      }
+
+      attempt++;
+      if (attempt > MAX_RETRIES) {
+        batchSizes.set(scan.stateId, batch);
+        throw e;
+      }
+      const delay = retryDelay(attempt);
+      console.error(`${scan.label} error on ${fromBlock} - ${toBlock} (attempt ${attempt}/${MAX_RETRIES}, retry in ${delay}ms):`, e.shortMessage || e.message);
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+
+  batchSizes.set(scan.stateId, batch);
+  return total;
+}
@@ -0,0 +1,130 @@
+// NFT ownership indexer - ERC721 Transfer events for every linked collection
+import { parseAbiItem, type Address, type PublicClient } from 'viem';
+import { CHAIN_CONFIGS, type SupportedChain } from '../config.js';
+import type { NftTransfer } from '../types/index.js';
+import {
+  getLinkedCollections,
+  applyNftTransfers,
+  refreshHolderCounts,
+  getIndexerState,
+} from '../db/index.js';
+import { checkpointId } from './chains.js';
+import { getSafeHead, trackBlocks } from './reorg.js';
+import { scanRange } from './logs.js';
+
+export const NFT_JOB = 'nft';
+
+export const TransferEvent = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+);
+
+// Checkpoint job name for one collection, e.g. `nft:0x5c5d...`
+export function collectionJob(collection: string): string {
+  return `${NFT_JOB}:${collection.toLowerCase()}`;
+}
+
+/**
+ * First block a contract has code at (binary search over eth_getCode), so a
+ * collection's history is scanned from its deployment. Falls back to 0 when
+ * the RPC can't serve historical state.
+ */
+async function findDeployBlock(client: PublicClient, address: Address, head: bigint): Promise<bigint> {
+  let low = 0n;
+  let high = head;
+  try {
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      const code = await client.getCode({ address, blockNumber: mid });
+      if (code && code !== '0x') high = mid;
+      else low = mid + 1n;
+    }
+    return low;
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Index one collection's transfers between two blocks (inclusive).
+ * Returns the number of transfers written.
+ */
+export async function indexTransferRange(
+  chain: SupportedChain,
+  client: PublicClient,
+  collection: string,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<number> {
+  const logs = await client.getLogs({
+    address: collection as Address,
+    event: TransferEvent,
+    fromBlock,
+    toBlock,
+  });
+  await trackBlocks(chain, client, logs, toBlock);
+
+  // ERC20-shaped Transfers (tokenId not indexed) can't be decoded - skip them
+  const transfers = logs.filter(log => log.args.tokenId !== undefined);
+  if (transfers.length === 0) return 0;
+
+  const timestamps = new Map<bigint, Date>();
+  for (const blockNumber of new Set(transfers.map(log => log.blockNumber!))) {
+    const block = await client.getBlock({ blockNumber });
+    timestamps.set(blockNumber, new Date(Number(block.timestamp) * 1000));
+  }
+
+  const rows: NftTransfer[] = transfers.map(log => ({
+    chain,
+    collection,
+    tokenId: log.args.tokenId!.toString(),
+    from: log.args.from!.toLowerCase(),
+    to: log.args.to!.toLowerCase(),
+    txHash: log.transactionHash!,
+    blockNumber: log.blockNumber!,
+    blockTimestamp: timestamps.get(log.blockNumber!)!,
+    logIndex: log.logIndex!,
+  }));
+
+  return applyNftTransfers(rows);
+}
+
+/**
+ * Follow every collection linked to a strategy token on the chain up to the
+ * confirmed head, then refresh holder counts for the ones that changed
+ */
+export async function syncOwnership(chain: SupportedChain, client: PublicClient) {
+  const collections = await getLinkedCollections(chain);
+  if (collections.length === 0) return;
+
+  const head = await getSafeHead(chain, client);
+  const changed: string[] = [];
+
+  for (const collection of collections) {
+    const stateId = checkpointId(chain, collectionJob(collection.address));
+    const state = await getIndexerState(stateId);
+    const fromBlock = state?.lastBlock
+      ? state.lastBlock + 1n
+      : await findDeployBlock(client, collection.address as Address, collection.firstDeploy);
+    if (fromBlock > head) continue;
+
+    if (!state?.lastBlock) {
+      console.log(`🖼️  [${chain}] Indexing ownership of ${collection.address} from block ${fromBlock}`);
+    }
+
+    const found = await scanRange({
+      stateId,
+      label: `[${chain}] transfers ${collection.address}`,
+      fromBlock,
+      toBlock: head,
+      // Transfers of a single contract are sparse; large ranges usually pass
+      initialBatch: 100000n,
+      maxBatch: 2000000n,
+      process: (from, to) => indexTransferRange(chain, client, collection.address, from, to),
+    });
+
+    if (found > 0 || !state?.lastBlock) changed.push(collection.address);
+    if (found > 0) console.log(`🖼️  [${chain}] ${found} transfers indexed for ${collection.address}`);
+  }
+
+  await refreshHolderCounts(chain, CHAIN_CONFIGS[chain].chainId, changed);
+}
@@ -0,0 +1,179 @@
+// OHLCV aggregator - rolls indexed swaps into candles for every chart interval
+import type { SupportedChain } from '../config.js';
+import type { OHLCV } from '../types/index.js';
+import {
+  getTokensWithSwapsAfter,
+  getSwapPricesSince,
+  getLastCandleBefore,
+  upsertCandles,
+  deleteCandles,
+  getIndexerState,
+  updateIndexerState,
+} from '../db/index.js';
+import { checkpointId } from './chains.js';
+
+export const OHLCV_JOB = 'ohlcv';
+
+export type CandleInterval = OHLCV['interval'];
+
+// Bucket length in seconds
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+// Most candles a chart request returns; also the most flat candles filled into
+// one idle gap, so a long quiet stretch on 1m doesn't write unbounded rows
+export const MAX_CHART_CANDLES = 1000;
+
+interface SwapPoint {
+  priceEth: string;
+  amountInEth: string | null;
+  blockTimestamp: Date;
+}
+
+export function bucketStart(date: Date, intervalSeconds: number): Date {
+  const size = intervalSeconds * 1000;
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+interface PreviousCandle {
+  bucketStart: Date;
+  close: string;
+}
+
+/**
+ * Build consecutive candles from time-ordered swaps. Buckets without trades
+ * (after `prev`, or between swaps) carry the previous close forward as a flat
+ * candle with zero volume, at most MAX_CHART_CANDLES per gap (the buckets just
+ * before the next trade). `prev` also seeds the open of the first bucket.
+ */
+export function buildCandles(
+  tokenAddress: string,
+  interval: CandleInterval,
+  swaps: SwapPoint[],
+  prev: PreviousCandle | null
+): OHLCV[] {
+  if (swaps.length === 0) return [];
+
+  const size = CANDLE_INTERVALS[interval] * 1000;
+  const candles: OHLCV[] = [];
+  let current: OHLCV | null = null;
+  let volume = 0n;
+  let lastClose = prev?.close ?? null;
+  let lastBucketTime = prev?.bucketStart.getTime() ?? null;
+
+  const flush = () => {
+    if (!current) return;
+    current.volume = volume.toString();
+    candles.push(current);
+    lastClose = current.close;
+    lastBucketTime = current.bucketStart.getTime();
+  };
+
+  for (const swap of swaps) {
+    const start = bucketStart(swap.blockTimestamp, CANDLE_INTERVALS[interval]);
+
+    if (!current || current.bucketStart.getTime() !== start.getTime()) {
+      flush();
+
+      // Fill empty buckets since the last trade with the carried close
+      if (lastBucketTime !== null && lastClose !== null) {
+        const firstFill = Math.max(lastBucketTime + size, start.getTime() - MAX_CHART_CANDLES * size);
+        for (let t = firstFill; t < start.getTime(); t += size) {
+          candles.push({
+            tokenAddress,
+            interval,
+            bucketStart: new Date(t),
+            open: lastClose,
+            high: lastClose,
+            low: lastClose,
+            close: lastClose,
+            volume: '0',
+            tradeCount: 0,
+          });
+        }
+      }
+
+      const open = lastClose ?? swap.priceEth;
+      current = {
+        tokenAddress,
+        interval,
+        bucketStart: start,
+        open,
+        high: open,
+        low: open,
+        close: open,
+        volume: '0',
+        tradeCount: 0,
+      };
+      volume = 0n;
+    }
+
+    const price = parseFloat(swap.priceEth);
+    if (price > parseFloat(current.high)) current.high = swap.priceEth;
+    if (price < parseFloat(current.low)) current.low = swap.priceEth;
+    current.close = swap.priceEth;
+    current.tradeCount++;
+    volume += BigInt(swap.amountInEth || '0');
+  }
+
+  flush();
+  return candles;
+}
+
+/**
+ * Recompute one token's candles from `since` onwards (all history when null)
+ */
+async function aggregateToken(tokenAddress: string, since: Date | null): Promise<number> {
+  let written = 0;
+
+  for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+    // Start at the bucket boundary so partially covered buckets are rebuilt whole
+    const from = since ? bucketStart(since, CANDLE_INTERVALS[interval]) : null;
+    const swaps = await getSwapPricesSince(tokenAddress, from);
+    const prev = from ? await getLastCandleBefore(tokenAddress, interval, from) : null;
+
+    const candles = buildCandles(tokenAddress, interval, swaps, prev);
+    await upsertCandles(candles);
+    written += candles.length;
+  }
+
+  return written;
+}
+
+/**
+ * Fold swaps indexed since the last run into candles for every interval
+ */
+export async function aggregateCandles(chain: SupportedChain) {
+  const stateId = checkpointId(chain, OHLCV_JOB);
+  const state = await getIndexerState(stateId);
+  const afterBlock = state?.lastBlock ?? 0n;
+
+  const tokens = await getTokensWithSwapsAfter(chain, afterBlock);
+  if (tokens.length === 0) return;
+
+  let lastBlock = afterBlock;
+  for (const token of tokens) {
+    await aggregateToken(token.tokenAddress, token.firstTimestamp);
+    if (token.lastBlock > lastBlock) lastBlock = token.lastBlock;
+  }
+
+  await updateIndexerState(stateId, lastBlock);
+  console.log(`🕯️  [${chain}] Candles updated for ${tokens.length} tokens`);
+}
+
+/**
+ * Drop and rebuild every candle for one token from its full swap history
+ */
+export async function rebuildCandles(tokenAddress: string): Promise<number> {
+  const address = tokenAddress.toLowerCase();
+  await deleteCandles(address);
+  const written = await aggregateToken(address, null);
+  console.log(`🕯️  Rebuilt ${written} candles for ${address}`);
+  return written;
+}
@@ -0,0 +1,108 @@
+// Reorg safety - confirmation depth, block hash tracking and rollback
+import type { Hash, PublicClient } from 'viem';
+import { CHAIN_CONFIGS, type SupportedChain } from '../config.js';
+import { recordBlockHashes, getRecentBlockHashes, pruneBlockHashes, rollbackChain } from '../db/index.js';
+import { rebuildCandles } from './ohlcv.js';
+
+// Latest chain head seen per chain (decides which blocks are still unfinalized)
+const latestHead = new Map<SupportedChain, bigint>();
+
+/**
+ * Highest block jobs may index: head minus the chain's confirmation depth
+ */
+export async function getSafeHead(chain: SupportedChain, client: PublicClient): Promise<bigint> {
+  const head = await client.getBlockNumber();
+  latestHead.set(chain, head);
+  const safe = head - BigInt(CHAIN_CONFIGS[chain].confirmations);
+  return safe > 0n ? safe : 0n;
+}
+
+// First block that is still inside the reorg window
+function windowStart(chain: SupportedChain): bigint | null {
+  const head = latestHead.get(chain);
+  if (head === undefined) return null;
+  return head - BigInt(CHAIN_CONFIGS[chain].reorgWindow);
+}
+
+/**
+ * Whether a block is recent enough to count as live (inside the reorg window).
+ * Backfilled history is not announced to real-time listeners.
+ */
+export function isLiveBlock(chain: SupportedChain, blockNumber: bigint): boolean {
+  const start = windowStart(chain);
+  return start !== null && blockNumber >= start;
+}
+
+/**
+ * Remember the hashes of blocks a job just indexed: every block that produced
+ * a log plus the batch's last block. Finalized blocks are not tracked.
+ */
+export async function trackBlocks(
+  chain: SupportedChain,
+  client: PublicClient,
+  logs: { blockNumber: bigint | null; blockHash: Hash | null }[],
+  toBlock: bigint
+): Promise<void> {
+  const start = windowStart(chain);
+  if (start === null || toBlock < start) return;
+
+  const blocks = new Map<bigint, string>();
+  for (const log of logs) {
+    if (log.blockNumber !== null && log.blockHash && log.blockNumber >= start) {
+      blocks.set(log.blockNumber, log.blockHash);
+    }
+  }
+  if (!blocks.has(toBlock)) {
+    const block = await client.getBlock({ blockNumber: toBlock });
+    blocks.set(toBlock, block.hash!);
+  }
+
+  await recordBlockHashes(chain, [...blocks].map(([number, hash]) => ({ number, hash })));
+}
+
+/**
+ * Compare stored hashes against the chain, newest first. On a mismatch, roll
+ * the chain's rows and checkpoints back to the newest block that still matches;
+ * the regular jobs then re-ingest the canonical blocks.
+ * Throws if a block can't be read, without rolling anything back.
+ * Returns the ancestor block that was rolled back to, or null if no reorg.
+ */
+export async function detectReorg(chain: SupportedChain, client: PublicClient): Promise<bigint | null> {
+  const stored = await getRecentBlockHashes(chain, CHAIN_CONFIGS[chain].reorgWindow);
+  if (stored.length === 0) return null;
+
+  let ancestor: bigint | null = null;
+  let mismatched = false;
+
+  for (const entry of stored) {
+    const block = await client.getBlock({ blockNumber: entry.number });
+    if (block.hash === entry.hash) {
+      ancestor = entry.number;
+      break;
+    }
+    mismatched = true;
+  }
+
+  if (!mismatched) {
+    const start = windowStart(chain);
+    if (start !== null) await pruneBlockHashes(chain, start);
+    return null;
+  }
+
+  // Every tracked block changed: rewind to just before the oldest one we knew
+  if (ancestor === null) ancestor = stored[stored.length - 1].number - 1n;
+
+  console.warn(`⚠️ [${chain}] Reorg detected, rolling back to block ${ancestor}`);
+  const removed = await rollbackChain(chain, ancestor);
+  console.warn(
+    `↩️  [${chain}] Rolled back ${removed.tokens.length} tokens, ${removed.swaps} swaps, ` +
+    `${removed.fees} fees, ${removed.claims} claims`
+  );
+
+  // Candles built from orphaned swaps would otherwise keep their prices
+  for (const token of removed.tradedTokens) {
+    await rebuildCandles(token);
+  }
+
+  return ancestor;
+}
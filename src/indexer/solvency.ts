@@ -0,0 +1,255 @@
+// FeeDistributor reconciliation - on-chain accruals and balances vs indexed fees and claims
+//
+// For every distributor on a chain, at the block its fees/claims are indexed to:
+//   accrued   sum of accumulatedRewards(token) * tokenToNftSupply(token) / 1e18
+//   indexed   sum of FeesReceived (and the holder share of it) and FeesClaimed
+//   balance   the distributor's ETH + WETH
+// Holders are owed accrued - claimed; a balance below that is an alert.
+import { formatEther, type Address, type PublicClient } from 'viem';
+import {
+  CHAIN_CONFIGS,
+  getContractVersions,
+  getFeeDistributor,
+  type SupportedChain,
+} from '../config.js';
+import type { DistributorReconciliation, ReconciliationStatus, TokenDiscrepancy } from '../types/index.js';
+import {
+  getRewardTokens,
+  getIndexerState,
+  getIndexedDistributorTotals,
+  insertReconciliation,
+  getLatestReconciliations,
+} from '../db/index.js';
+import { checkpointId } from './chains.js';
+import { distributorJob } from './fees.js';
+
+const PRECISION = 10n ** 18n;
+const MULTICALL_CHUNK = 250;           // tokens per Multicall3 eth_call (2 reads each)
+// Accrued vs indexed may drift by rounding (and NFT supply changes); flag beyond 0.1%
+const TOLERANCE_BPS = 10n;
+const MIN_TOLERANCE_WEI = 10n ** 12n;  // 0.000001 ETH
+const MAX_REPORTED_DISCREPANCIES = 50;
+
+const feeDistributorAbi = [
+  {
+    name: 'accumulatedRewards',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'tokenToNftSupply',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const;
+
+const erc20BalanceAbi = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const;
+
+type RewardToken = Awaited<ReturnType<typeof getRewardTokens>>[number];
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+function withinTolerance(actual: bigint, expected: bigint): boolean {
+  const tolerance = (abs(expected) * TOLERANCE_BPS) / 10000n;
+  return abs(actual - expected) <= (tolerance > MIN_TOLERANCE_WEI ? tolerance : MIN_TOLERANCE_WEI);
+}
+
+// Accrued holder rewards per token (wei), all read at one block
+async function readAccrued(
+  client: PublicClient,
+  feeDistributor: Address,
+  tokens: RewardToken[],
+  blockNumber: bigint
+): Promise<Map<string, bigint>> {
+  const accrued = new Map<string, bigint>();
+
+  for (let i = 0; i < tokens.length; i += MULTICALL_CHUNK) {
+    const chunk = tokens.slice(i, i + MULTICALL_CHUNK);
+    const results = await client.multicall({
+      contracts: chunk.flatMap(token => [
+        { address: feeDistributor, abi: feeDistributorAbi, functionName: 'accumulatedRewards' as const, args: [token.address as Address] as const },
+        { address: feeDistributor, abi: feeDistributorAbi, functionName: 'tokenToNftSupply' as const, args: [token.address as Address] as const },
+      ]),
+      allowFailure: false,
+      blockNumber,
+      batchSize: 0,
+    });
+
+    chunk.forEach((token, j) => {
+      const perNft = results[j * 2] as bigint;
+      const supply = results[j * 2 + 1] as bigint;
+      accrued.set(token.address, (perNft * supply) / PRECISION);
+    });
+  }
+  return accrued;
+}
+
+/**
+ * Reconcile one distributor at a block. Throws if the RPC can't serve state there.
+ */
+async function reconcileDistributor(
+  chain: SupportedChain,
+  client: PublicClient,
+  feeDistributor: string,
+  versions: string[],
+  tokens: RewardToken[],
+  blockNumber: bigint
+): Promise<DistributorReconciliation> {
+  const address = feeDistributor as Address;
+  const [accrued, ethBalance, wethBalance] = await Promise.all([
+    readAccrued(client, address, tokens, blockNumber),
+    client.getBalance({ address, blockNumber }),
+    client.readContract({
+      address: CHAIN_CONFIGS[chain].weth as Address,
+      abi: erc20BalanceAbi,
+      functionName: 'balanceOf',
+      args: [address],
+      blockNumber,
+    }),
+  ]);
+  const indexed = await getIndexedDistributorTotals(tokens.map(t => t.address), blockNumber);
+
+  let totalAccrued = 0n;
+  let totalReceived = 0n;
+  let totalHolderFees = 0n;
+  let totalClaimed = 0n;
+  const discrepancies: TokenDiscrepancy[] = [];
+
+  for (const token of tokens) {
+    const tokenAccrued = accrued.get(token.address) ?? 0n;
+    const totals = indexed.get(token.address)!;
+    totalAccrued += tokenAccrued;
+    totalReceived += totals.received;
+    totalHolderFees += totals.holderFees;
+    totalClaimed += totals.claimed;
+
+    if (!withinTolerance(tokenAccrued, totals.holderFees) || totals.claimed > tokenAccrued) {
+      discrepancies.push({
+        tokenAddress: token.address,
+        symbol: token.symbol,
+        accrued: tokenAccrued.toString(),
+        holderFees: totals.holderFees.toString(),
+        claimed: totals.claimed.toString(),
+        difference: (tokenAccrued - totals.holderFees).toString(),
+      });
+    }
+  }
+
+  discrepancies.sort((a, b) => {
+    const diff = abs(BigInt(b.difference)) - abs(BigInt(a.difference));
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+
+  const owed = totalAccrued > totalClaimed ? totalAccrued - totalClaimed : 0n;
+  const balance = ethBalance + wethBalance;
+  const shortfall = owed > balance ? owed - balance : 0n;
+  const status: ReconciliationStatus = shortfall > 0n
+    ? 'insolvent'
+    : discrepancies.length > 0 ? 'mismatch' : 'ok';
+
+  return {
+    chain,
+    feeDistributor: feeDistributor.toLowerCase(),
+    versions,
+    blockNumber,
+    tokenCount: tokens.length,
+    accruedRewards: totalAccrued.toString(),
+    feesReceived: totalReceived.toString(),
+    holderFees: totalHolderFees.toString(),
+    feesClaimed: totalClaimed.toString(),
+    ethBalance: ethBalance.toString(),
+    wethBalance: wethBalance.toString(),
+    owed: owed.toString(),
+    shortfall: shortfall.toString(),
+    status,
+    discrepancies: discrepancies.slice(0, MAX_REPORTED_DISCREPANCIES),
+  };
+}
+
+// Post to ALERT_WEBHOOK_URL when configured (Slack reads `text`, Discord `content`)
+async function sendAlert(message: string): Promise<void> {
+  console.error(`🚨 ${message}`);
+
+  const url = process.env.ALERT_WEBHOOK_URL;
+  if (!url) return;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: message, content: message }),
+    });
+    if (!response.ok) console.warn(`⚠️ Alert webhook HTTP ${response.status}`);
+  } catch (e: any) {
+    console.warn('⚠️ Alert webhook failed:', e.message);
+  }
+}
+
+/**
+ * Reconcile every FeeDistributor on a chain and store the results. Alerts when
+ * a distributor becomes insolvent (not again while it stays that way).
+ */
+export async function reconcileDistributors(chain: SupportedChain, client: PublicClient) {
+  const tokens = (await getRewardTokens()).filter(t => t.chain === chain);
+  const previous = new Map(
+    (await getLatestReconciliations(chain)).map(r => [r.feeDistributor, r.status])
+  );
+
+  // Generations may share a distributor; group them by address
+  const distributors = new Map<string, string[]>();
+  for (const deployment of getContractVersions(chain)) {
+    const address = deployment.feeDistributor.toLowerCase();
+    distributors.set(address, [...(distributors.get(address) || []), deployment.version]);
+  }
+
+  for (const [feeDistributor, versions] of distributors) {
+    // Indexed fees/claims are complete up to the lowest checkpoint of the generations
+    let blockNumber: bigint | null = null;
+    for (const deployment of getContractVersions(chain).filter(d => versions.includes(d.version))) {
+      const state = await getIndexerState(checkpointId(chain, distributorJob(deployment)));
+      const last = state?.lastBlock ?? 0n;
+      if (blockNumber === null || last < blockNumber) blockNumber = last;
+    }
+    if (!blockNumber) continue;
+
+    const distributorTokens = tokens.filter(
+      t => getFeeDistributor(chain, t.protocolVersion)?.toLowerCase() === feeDistributor
+    );
+
+    let result: DistributorReconciliation;
+    try {
+      result = await reconcileDistributor(chain, client, feeDistributor, versions, distributorTokens, blockNumber);
+    } catch (e: any) {
+      console.warn(`⚠️ [${chain}] Reconciliation of ${feeDistributor} at block ${blockNumber} failed:`, e.shortMessage || e.message);
+      continue;
+    }
+    await insertReconciliation(result);
+
+    const balance = BigInt(result.ethBalance) + BigInt(result.wethBalance);
+    console.log(
+      `🧮 [${chain}] FeeDistributor ${versions.join('/')} @ ${blockNumber}: ${result.status}` +
+      ` - owed ${formatEther(BigInt(result.owed))} ETH, balance ${formatEther(balance)} ETH,` +
+      ` ${result.discrepancies.length} token discrepancies`
+    );
+
+    if (result.status === 'insolvent' && previous.get(feeDistributor) !== 'insolvent') {
+      await sendAlert(
+        `[${chain}] FeeDistributor ${feeDistributor} is short ${formatEther(BigInt(result.shortfall))} ETH` +
+        ` at block ${blockNumber}: owes holders ${formatEther(BigInt(result.owed))} ETH, holds ${formatEther(balance)} ETH`
+      );
+    }
+  }
+}
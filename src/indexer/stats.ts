@@ -0,0 +1,124 @@
+// token_stats materializer - derives every stats column from indexed swaps, fees and claims
+import { parseUnits, type Address, type PublicClient } from 'viem';
+import type { SupportedChain } from '../config.js';
+import type { TokenStats } from '../types/index.js';
+import { getStatsTokens, setTokenTotalSupply, getTokenActivity, saveTokenStats, getLatestEthUsdPrice } from '../db/index.js';
+import { poolReserves } from '../onchain-price.js';
+
+// price_change_24h is DECIMAL(10, 4)
+const MAX_PRICE_CHANGE = 999999.9999;
+
+const totalSupplyAbi = [
+  { name: 'totalSupply', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+] as const;
+
+interface StatsToken {
+  address: string;
+  decimals: number;
+  totalSupply: string | null;
+}
+
+// Token amount (base units) valued in wei at a price in wei per whole token
+function valueInWei(amount: bigint, priceWei: bigint, decimals: number): bigint {
+  return (amount * priceWei) / 10n ** BigInt(decimals);
+}
+
+function priceChange(current: string | null, previous: string | null): number | undefined {
+  if (!current || !previous) return undefined;
+  const from = parseFloat(previous);
+  if (from === 0) return undefined;
+  const change = ((parseFloat(current) - from) / from) * 100;
+  const clamped = Math.max(-MAX_PRICE_CHANGE, Math.min(MAX_PRICE_CHANGE, change));
+  return Math.round(clamped * 10000) / 10000;
+}
+
+// Supply is fixed at deploy, so it is read once and kept on the token row
+async function loadTotalSupply(client: PublicClient, token: StatsToken): Promise<bigint | null> {
+  if (token.totalSupply) return BigInt(token.totalSupply);
+  try {
+    const supply = await client.readContract({
+      address: token.address as Address,
+      abi: totalSupplyAbi,
+      functionName: 'totalSupply',
+    });
+    await setTokenTotalSupply(token.address, supply.toString());
+    return supply;
+  } catch (e: any) {
+    console.warn(`Failed to read totalSupply for ${token.address}:`, e.shortMessage || e.message);
+    return null;
+  }
+}
+
+/**
+ * Compute one token's full stats row from the indexed tables. `ethUsd` values
+ * the last price in USD.
+ */
+export async function computeTokenStats(
+  client: PublicClient,
+  token: StatsToken,
+  ethUsd: number | null = null
+): Promise<Omit<TokenStats, 'lastUpdated'>> {
+  const activity = await getTokenActivity(token.address);
+  const totalSupply = await loadTotalSupply(client, token);
+
+  const priceWei = activity.priceEth ? parseUnits(activity.priceEth, 18) : 0n;
+  const reserves = activity.sqrtPriceX96 && activity.liquidity
+    ? poolReserves(BigInt(activity.sqrtPriceX96), BigInt(activity.liquidity))
+    : { eth: 0n, token: 0n };
+
+  // Tokens still sitting in the pool are not circulating
+  let marketCapEth: string | undefined;
+  let fullyDilutedValuation: string | undefined;
+  if (totalSupply !== null && priceWei > 0n) {
+    const circulating = totalSupply > reserves.token ? totalSupply - reserves.token : 0n;
+    marketCapEth = valueInWei(circulating, priceWei, token.decimals).toString();
+    fullyDilutedValuation = valueInWei(totalSupply, priceWei, token.decimals).toString();
+  }
+
+  const pending = BigInt(activity.feesToHolders) - BigInt(activity.feesClaimed);
+
+  return {
+    tokenAddress: token.address,
+    volume24h: activity.volume24h,
+    volume7d: activity.volume7d,
+    volumeTotal: activity.volumeTotal,
+    trades24h: activity.trades24h,
+    tradesTotal: activity.tradesTotal,
+    uniqueTraders: activity.uniqueTraders,
+    tvl: (reserves.eth + valueInWei(reserves.token, priceWei, token.decimals)).toString(),
+    liquidityEth: reserves.eth.toString(),
+    liquidityToken: reserves.token.toString(),
+    priceEth: activity.priceEth ?? '0',
+    priceUsd: activity.priceEth && ethUsd !== null ? parseFloat(activity.priceEth) * ethUsd : undefined,
+    priceChange24h: priceChange(activity.priceEth, activity.price24hAgo),
+    athPriceEth: activity.athPriceEth ?? undefined,
+    atlPriceEth: activity.atlPriceEth ?? undefined,
+    totalFeesDistributed: activity.feesReceived,
+    totalFeesClaimed: activity.feesClaimed,
+    pendingFees: (pending > 0n ? pending : 0n).toString(),
+    marketCapEth,
+    fullyDilutedValuation,
+    lastTradeAt: activity.lastTradeAt ?? undefined,
+  };
+}
+
+/**
+ * Refresh token_stats for every token on a chain. Runs after each indexing
+ * batch - rolling 24h/7d windows move even when no new swaps arrived.
+ */
+export async function materializeStats(chain: SupportedChain, client: PublicClient) {
+  const tokens = await getStatsTokens(chain);
+  const ethUsd = (await getLatestEthUsdPrice(chain))?.priceUsd ?? null;
+  let failed = 0;
+
+  for (const token of tokens) {
+    try {
+      await saveTokenStats(await computeTokenStats(client, token, ethUsd));
+    } catch (e: any) {
+      failed++;
+      console.error(`[${chain}] Stats error for ${token.address}:`, e.message);
+    }
+  }
+
+  if (failed > 0) console.warn(`⚠️ [${chain}] Stats refresh failed for ${failed}/${tokens.length} tokens`);
+}
@@ -0,0 +1,219 @@
+// Swap indexer - Uniswap V4 PoolManager Swap events for cc0strategy pools
+import { parseAbiItem, formatUnits, type Address, type Hash, type PublicClient } from 'viem';
+import { CHAIN_CONFIGS, type SupportedChain } from '../config.js';
+import type { Swap } from '../types/index.js';
+import { sql, insertSwap, getPoolTokens, getIndexerState } from '../db/index.js';
+import { publishEvent } from '../events.js';
+import { checkpointId } from './chains.js';
+import { getFactoryHead } from './factory.js';
+import { trackBlocks, isLiveBlock } from './reorg.js';
+import { scanRange } from './logs.js';
+
+export const SWAPS_JOB = 'swaps';
+
+export const SwapEvent = parseAbiItem(
+  'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)'
+);
+
+// cc0strategy pools pair the token with native ETH, which is always currency0
+// (address(0) sorts first). V4 swap deltas are from the caller's side:
+// negative = paid into the pool, positive = received from it.
+
+interface PoolToken {
+  address: string;
+  decimals: number;
+}
+
+export interface DecodedSwap {
+  tokenAddress: string;
+  isBuy: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  amountEth: bigint;
+  amountToken: bigint;
+  priceEth: string;
+}
+
+/**
+ * Turn raw V4 deltas into a buy/sell with an execution price in ETH per token
+ */
+export function decodeSwapAmounts(token: PoolToken, amount0: bigint, amount1: bigint): DecodedSwap | null {
+  const isBuy = amount0 < 0n;
+  const amountEth = amount0 < 0n ? -amount0 : amount0;
+  const amountToken = amount1 < 0n ? -amount1 : amount1;
+  if (amountEth === 0n || amountToken === 0n) return null;
+
+  // wei per whole token, formatted as ETH
+  const priceWei = (amountEth * 10n ** BigInt(token.decimals)) / amountToken;
+
+  return {
+    tokenAddress: token.address,
+    isBuy,
+    amountIn: isBuy ? amountEth : amountToken,
+    amountOut: isBuy ? amountToken : amountEth,
+    amountEth,
+    amountToken,
+    priceEth: formatUnits(priceWei, 18),
+  };
+}
+
+// Look up block timestamps and tx senders once per batch
+async function loadBatchContext(client: PublicClient, blockNumbers: bigint[], txHashes: Hash[]) {
+  const timestamps = new Map<bigint, Date>();
+  for (const blockNumber of new Set(blockNumbers)) {
+    const block = await client.getBlock({ blockNumber });
+    timestamps.set(blockNumber, new Date(Number(block.timestamp) * 1000));
+  }
+
+  // The event's sender is the router; the trader is whoever signed the tx
+  const traders = new Map<Hash, string>();
+  for (const hash of new Set(txHashes)) {
+    const tx = await client.getTransaction({ hash });
+    traders.set(hash, tx.from.toLowerCase());
+  }
+
+  return { timestamps, traders };
+}
+
+/**
+ * Read and decode swaps for every known pool on a chain (or just `token`'s
+ * pool) between two blocks (inclusive). Only RPC reads; nothing is written.
+ */
+export async function fetchSwapRange(
+  chain: SupportedChain,
+  client: PublicClient,
+  fromBlock: bigint,
+  toBlock: bigint,
+  token?: string
+): Promise<Omit<Swap, 'id'>[]> {
+  const pools = (await getPoolTokens(chain)).filter(p => !token || p.address === token.toLowerCase());
+  const poolsById = new Map(pools.map(p => [p.poolId, p]));
+  if (pools.length === 0) return [];
+
+  const logs = await client.getLogs({
+    address: CHAIN_CONFIGS[chain].poolManager as Address,
+    event: SwapEvent,
+    args: { id: pools.map(p => p.poolId) },
+    fromBlock,
+    toBlock,
+  });
+  await trackBlocks(chain, client, logs, toBlock);
+  if (logs.length === 0) return [];
+
+  const { timestamps, traders } = await loadBatchContext(
+    client,
+    logs.map(log => log.blockNumber!),
+    logs.map(log => log.transactionHash!)
+  );
+
+  const swaps: Omit<Swap, 'id'>[] = [];
+  for (const log of logs) {
+    const pool = poolsById.get(log.args.id!.toLowerCase() as `0x${string}`);
+    if (!pool) continue;
+
+    const swap = decodeSwapAmounts(pool, log.args.amount0!, log.args.amount1!);
+    if (!swap) continue;
+
+    swaps.push({
+      tokenAddress: swap.tokenAddress,
+      trader: traders.get(log.transactionHash!) || log.args.sender!.toLowerCase(),
+      isBuy: swap.isBuy,
+      amountIn: swap.amountIn.toString(),
+      amountOut: swap.amountOut.toString(),
+      amountInEth: swap.amountEth.toString(),
+      priceEth: swap.priceEth,
+      sqrtPriceX96: log.args.sqrtPriceX96!.toString(),
+      liquidity: log.args.liquidity!.toString(),
+      tick: log.args.tick!,
+      txHash: log.transactionHash!,
+      blockNumber: log.blockNumber!,
+      blockTimestamp: timestamps.get(log.blockNumber!)!,
+      logIndex: log.logIndex!,
+    });
+  }
+  return swaps;
+}
+
+/**
+ * Insert swaps through `db` (a transaction for reindexes). Returns the ones
+ * that were new.
+ */
+export async function writeSwaps(swaps: Omit<Swap, 'id'>[], db = sql): Promise<Omit<Swap, 'id'>[]> {
+  const written: Omit<Swap, 'id'>[] = [];
+  for (const swap of swaps) {
+    if (await insertSwap(swap, db)) written.push(swap);
+  }
+  return written;
+}
+
+// Announce written swaps from live blocks; call once they are committed
+export async function publishSwaps(chain: SupportedChain, swaps: Omit<Swap, 'id'>[]): Promise<void> {
+  for (const swap of swaps) {
+    if (!isLiveBlock(chain, swap.blockNumber)) continue;
+    await publishEvent(sql, {
+      type: 'swap',
+      chain,
+      tokenAddress: swap.tokenAddress,
+      trader: swap.trader,
+      isBuy: swap.isBuy,
+      amountIn: swap.amountIn,
+      amountOut: swap.amountOut,
+      amountEth: swap.amountInEth!,
+      priceEth: swap.priceEth,
+      txHash: swap.txHash,
+      blockNumber: swap.blockNumber.toString(),
+      blockTimestamp: swap.blockTimestamp.toISOString(),
+      logIndex: swap.logIndex,
+    });
+  }
+}
+
+/**
+ * Index swaps for every known pool on a chain (or just `token`'s pool) between
+ * two blocks (inclusive). Returns the number of swaps written.
+ */
+export async function indexSwapRange(
+  chain: SupportedChain,
+  client: PublicClient,
+  fromBlock: bigint,
+  toBlock: bigint,
+  token?: string
+): Promise<number> {
+  const written = await writeSwaps(await fetchSwapRange(chain, client, fromBlock, toBlock, token));
+  await publishSwaps(chain, written);
+  return written.length;
+}
+
+/**
+ * Advance the swap checkpoint, never past what the factory job has covered
+ * (a pool must be known before its swaps can be matched)
+ */
+export async function syncSwaps(chain: SupportedChain, client: PublicClient) {
+  const factoryHead = await getFactoryHead(chain);
+  if (factoryHead === null) return;
+
+  const pools = await getPoolTokens(chain);
+  if (pools.length === 0) return;
+
+  const stateId = checkpointId(chain, SWAPS_JOB);
+  const state = await getIndexerState(stateId);
+  const firstDeploy = pools.reduce((min, p) => (p.deployBlock < min ? p.deployBlock : min), pools[0].deployBlock);
+  const fromBlock = state?.lastBlock ? state.lastBlock + 1n : firstDeploy;
+  if (fromBlock > factoryHead) return;
+
+  const totalFound = await scanRange({
+    stateId,
+    label: `[${chain}] swaps`,
+    fromBlock,
+    toBlock: factoryHead,
+    initialBatch: 2000n,
+    maxBatch: 10000n,
+    process: async (from, to) => {
+      const found = await indexSwapRange(chain, client, from, to);
+      if (found > 0) console.log(`💱 [${chain}] ${found} swaps in blocks ${from} - ${to}`);
+      return found;
+    },
+  });
+
+  if (totalFound > 0) console.log(`✅ [${chain}] Swap sync complete. Indexed ${totalFound} swaps.`);
+}
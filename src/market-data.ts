@@ -0,0 +1,367 @@
+// Market data providers - GeckoTerminal, DexScreener and the token's own pool
+//
+// Providers are tried in priority order (MARKET_DATA_PROVIDERS, comma separated).
+// Each one gets the tokens the providers before it couldn't price. A provider
+// that fails FAILURE_THRESHOLD refreshes in a row is skipped for COOLDOWN_MS,
+// then given another try. Tokens no provider priced keep their previous entry.
+import type { Hex } from 'viem';
+import type { SupportedChain } from './config.js';
+import type { MarketQuote, MarketSource, MarketToken, OnchainMarket } from './types/index.js';
+import { GECKO_NETWORKS, getEthUsdPrice } from './prices.js';
+import { readPoolStates, computeOnchainMarket } from './onchain-price.js';
+
+const DEFAULT_PRIORITY: MarketSource[] = ['geckoterminal', 'dexscreener', 'onchain'];
+const FAILURE_THRESHOLD = 3;                // consecutive failed refreshes before cooling down
+const COOLDOWN_MS = 5 * 60 * 1000;          // 5 minutes
+const LATENCY_SMOOTHING = 0.2;              // weight of the newest request in avgLatencyMs
+const GECKO_CONCURRENCY = 5;                // token requests in flight
+const GECKO_BATCH_DELAY_MS = 200;
+const DEXSCREENER_BATCH = 30;               // token addresses per request (API limit)
+
+const DEXSCREENER_CHAINS: Record<SupportedChain, string> = {
+  base: 'base',
+  ethereum: 'ethereum',
+};
+
+interface ProviderResult {
+  quotes: Map<string, MarketQuote>;
+  requests: number;
+  // Set when the provider failed part way; quotes holds what it got before that
+  error?: string;
+  // Pool state per token (onchain provider only)
+  pools?: Map<string, OnchainMarket>;
+}
+
+interface MarketDataProvider {
+  name: MarketSource;
+  fetchQuotes(chain: SupportedChain, tokens: MarketToken[]): Promise<ProviderResult>;
+}
+
+export interface ProviderHealth {
+  name: MarketSource;
+  priority: number;
+  healthy: boolean;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  cooldownUntil: number | null;
+  // Cached tokens whose figures came from this provider
+  served: number;
+}
+
+export interface MarketQuotes {
+  quotes: Map<string, MarketQuote & { source: MarketSource }>;
+  // Own-pool state per token, whichever provider priced it
+  pools: Map<string, OnchainMarket>;
+}
+
+// Rate limits and server errors fail the provider; a missing token (404) doesn't
+async function getJson(url: string): Promise<any | null> {
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json();
+}
+
+function num(value: unknown): number {
+  return parseFloat((value as string) || '0') || 0;
+}
+
+// GeckoTerminal: one request per token, preferring the token's own V4 pool
+const geckoTerminal: MarketDataProvider = {
+  name: 'geckoterminal',
+  async fetchQuotes(chain, tokens) {
+    const quotes = new Map<string, MarketQuote>();
+    let requests = 0;
+
+    const fetchQuote = async (token: MarketToken): Promise<MarketQuote | null> => {
+      requests++;
+      const data = await getJson(
+        `https://api.geckoterminal.com/api/v2/networks/${GECKO_NETWORKS[chain]}/tokens/${token.address}/pools?page=1`
+      );
+      const pools = data?.data;
+      if (!pools || pools.length === 0) return null;
+
+      // V4 pools are listed under their pool id; other pools are only a fallback
+      const pool = (token.poolId && pools.find((p: any) => p.attributes?.address?.toLowerCase() === token.poolId)) || pools[0];
+      const attrs = pool.attributes;
+      if (!attrs) return null;
+
+      const baseToken = pool.relationships?.base_token?.data?.id?.split('_')[1]?.toLowerCase();
+      const isBase = baseToken === token.address;
+      return {
+        priceUsd: num(isBase ? attrs.base_token_price_usd : attrs.quote_token_price_usd),
+        priceEth: num(isBase ? attrs.base_token_price_native_currency : attrs.quote_token_price_native_currency) || null,
+        priceChange24h: num(attrs.price_change_percentage?.h24),
+        volume24h: num(attrs.volume_usd?.h24),
+        marketCap: num(attrs.market_cap_usd) || num(attrs.fdv_usd),
+        fdv: num(attrs.fdv_usd),
+        liquidity: num(attrs.reserve_in_usd),
+      };
+    };
+
+    for (let i = 0; i < tokens.length; i += GECKO_CONCURRENCY) {
+      const batch = tokens.slice(i, i + GECKO_CONCURRENCY);
+      const results = await Promise.allSettled(batch.map(fetchQuote));
+
+      let error: string | undefined;
+      results.forEach((result, j) => {
+        if (result.status === 'fulfilled') {
+          if (result.value) quotes.set(batch[j].address, result.value);
+        } else {
+          error = result.reason?.message || String(result.reason);
+        }
+      });
+      // Stop at the first rate limit/outage; later providers pick up the rest
+      if (error) return { quotes, requests, error };
+
+      if (i + GECKO_CONCURRENCY < tokens.length) {
+        await new Promise(r => setTimeout(r, GECKO_BATCH_DELAY_MS));
+      }
+    }
+    return { quotes, requests };
+  },
+};
+
+// DexScreener: up to 30 tokens per request, pairs where the token is the base
+const dexScreener: MarketDataProvider = {
+  name: 'dexscreener',
+  async fetchQuotes(chain, tokens) {
+    const quotes = new Map<string, MarketQuote>();
+    let requests = 0;
+
+    for (let i = 0; i < tokens.length; i += DEXSCREENER_BATCH) {
+      const batch = tokens.slice(i, i + DEXSCREENER_BATCH);
+      let pairs: any[];
+      try {
+        requests++;
+        pairs = (await getJson(
+          `https://api.dexscreener.com/tokens/v1/${DEXSCREENER_CHAINS[chain]}/${batch.map(t => t.address).join(',')}`
+        )) || [];
+      } catch (e: any) {
+        return { quotes, requests, error: e.message };
+      }
+
+      for (const token of batch) {
+        const candidates = pairs.filter(p => p.baseToken?.address?.toLowerCase() === token.address);
+        if (candidates.length === 0) continue;
+
+        // The token's own V4 pool if listed, otherwise the deepest pair
+        const pair = (token.poolId && candidates.find(p => p.pairAddress?.toLowerCase() === token.poolId))
+          || candidates.reduce((best, p) => (num(p.liquidity?.usd) > num(best.liquidity?.usd) ? p : best));
+        const quotedInEth = ['ETH', 'WETH'].includes(pair.quoteToken?.symbol?.toUpperCase());
+
+        quotes.set(token.address, {
+          priceUsd: num(pair.priceUsd),
+          priceEth: quotedInEth ? num(pair.priceNative) || null : null,
+          priceChange24h: num(pair.priceChange?.h24),
+          volume24h: num(pair.volume?.h24),
+          marketCap: num(pair.marketCap) || num(pair.fdv),
+          fdv: num(pair.fdv),
+          liquidity: num(pair.liquidity?.usd),
+        });
+      }
+    }
+    return { quotes, requests };
+  },
+};
+
+// The token's own pool through StateView, valued at the chain's ETH/USD price
+const onchain: MarketDataProvider = {
+  name: 'onchain',
+  async fetchQuotes(chain, tokens) {
+    const quotes = new Map<string, MarketQuote>();
+    const pools = new Map<string, OnchainMarket>();
+    const withPool = tokens.filter(t => t.poolId && t.poolId.length === 66);
+    if (withPool.length === 0) return { quotes, requests: 0, pools };
+
+    let result: Awaited<ReturnType<typeof readPoolStates>>;
+    try {
+      result = await readPoolStates(chain, withPool.map(t => t.poolId as Hex));
+    } catch (e: any) {
+      return { quotes, requests: 1, pools, error: e.shortMessage || e.message };
+    }
+    if (!result) return { quotes, requests: 0, pools, error: 'No RPC client' };
+
+    for (const token of withPool) {
+      const state = result.states.get(token.poolId!);
+      if (!state) continue;
+      const totalSupply = token.totalSupply ? BigInt(token.totalSupply) : null;
+      pools.set(token.address, computeOnchainMarket(state, token.decimals, totalSupply, result.blockNumber));
+    }
+
+    const ethUsd = await getEthUsdPrice(chain);
+    if (ethUsd === null) return { quotes, requests: 1, pools, error: 'ETH/USD price unavailable' };
+
+    for (const [address, pool] of pools) {
+      quotes.set(address, {
+        priceUsd: parseFloat(pool.priceEth) * ethUsd,
+        priceEth: parseFloat(pool.priceEth),
+        priceChange24h: 0,
+        volume24h: 0,
+        marketCap: parseFloat(pool.marketCapEth || '0') * ethUsd,
+        fdv: parseFloat(pool.fdvEth || '0') * ethUsd,
+        liquidity: parseFloat(pool.tvlEth) * ethUsd,
+      });
+    }
+    return { quotes, requests: 1, pools };
+  },
+};
+
+const PROVIDERS: Record<MarketSource, MarketDataProvider> = {
+  geckoterminal: geckoTerminal,
+  dexscreener: dexScreener,
+  onchain,
+};
+
+// Configured priority; unknown names are ignored
+function providerPriority(): MarketSource[] {
+  const configured = (process.env.MARKET_DATA_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (configured.length === 0) return DEFAULT_PRIORITY;
+
+  const known = configured.filter((name): name is MarketSource => Object.hasOwn(PROVIDERS, name));
+  for (const name of configured.filter(name => !Object.hasOwn(PROVIDERS, name))) {
+    console.warn(`⚠️ Unknown market data provider "${name}" in MARKET_DATA_PROVIDERS`);
+  }
+  return known.length > 0 ? [...new Set(known)] : DEFAULT_PRIORITY;
+}
+
+const priority = providerPriority();
+
+const health = new Map<MarketSource, ProviderHealth>(
+  priority.map((name, i) => [name, {
+    name,
+    priority: i + 1,
+    healthy: true,
+    requests: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    avgLatencyMs: null,
+    lastLatencyMs: null,
+    lastSuccessAt: null,
+    lastError: null,
+    lastErrorAt: null,
+    cooldownUntil: null,
+    served: 0,
+  }])
+);
+
+function available(state: ProviderHealth): boolean {
+  return state.cooldownUntil === null || Date.now() >= state.cooldownUntil;
+}
+
+// Run one provider and record how it went
+async function runProvider(
+  provider: MarketDataProvider,
+  chain: SupportedChain,
+  tokens: MarketToken[]
+): Promise<ProviderResult> {
+  const state = health.get(provider.name)!;
+  const started = Date.now();
+
+  let result: ProviderResult;
+  try {
+    result = await provider.fetchQuotes(chain, tokens);
+  } catch (e: any) {
+    result = { quotes: new Map(), requests: 1, error: e.message };
+  }
+
+  if (result.requests > 0) {
+    const latency = Math.round((Date.now() - started) / result.requests);
+    state.lastLatencyMs = latency;
+    state.avgLatencyMs = state.avgLatencyMs === null
+      ? latency
+      : Math.round(state.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+    state.requests += result.requests;
+  }
+
+  if (result.error) {
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastError = result.error;
+    state.lastErrorAt = Date.now();
+    console.warn(`⚠️ [${chain}] Market provider ${provider.name} failed (${result.quotes.size}/${tokens.length} priced): ${result.error}`);
+
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      state.healthy = false;
+      state.cooldownUntil = Date.now() + COOLDOWN_MS;
+      console.warn(`⚠️ Market provider ${provider.name} cooling down for ${COOLDOWN_MS / 60000} min`);
+    }
+  } else {
+    if (!state.healthy) console.log(`✅ Market provider ${provider.name} recovered`);
+    state.healthy = true;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = null;
+    state.lastSuccessAt = Date.now();
+  }
+  return result;
+}
+
+/**
+ * Quote every token of a chain, falling through the providers in priority
+ * order. The own-pool read always covers every token, as the reference
+ * third-party prices are compared against.
+ */
+export async function fetchMarketQuotes(chain: SupportedChain, tokens: MarketToken[]): Promise<MarketQuotes> {
+  const quotes: MarketQuotes['quotes'] = new Map();
+  let pools = new Map<string, OnchainMarket>();
+
+  // One StateView read serves both as reference and as the onchain provider
+  let onchainResult: ProviderResult | null = null;
+  const onchainHealth = health.get('onchain');
+  if (onchainHealth && available(onchainHealth)) {
+    onchainResult = await runProvider(PROVIDERS.onchain, chain, tokens);
+    pools = onchainResult.pools ?? pools;
+  }
+
+  let remaining = tokens;
+  for (const name of priority) {
+    if (remaining.length === 0) break;
+    const state = health.get(name)!;
+
+    let result: ProviderResult | null;
+    if (name === 'onchain') {
+      result = onchainResult;
+    } else {
+      result = available(state) ? await runProvider(PROVIDERS[name], chain, remaining) : null;
+    }
+    if (!result) continue;
+
+    for (const token of remaining) {
+      const quote = result.quotes.get(token.address);
+      if (quote) quotes.set(token.address, { ...quote, source: name });
+    }
+    remaining = remaining.filter(token => !quotes.has(token.address));
+  }
+
+  if (remaining.length > 0) {
+    console.warn(`⚠️ [${chain}] No market data provider priced ${remaining.length} tokens`);
+  }
+  return { quotes, pools };
+}
+
+/**
+ * Count the cached tokens each provider is serving, after a refresh
+ */
+export function recordServedCounts(sources: Iterable<MarketSource>): void {
+  for (const state of health.values()) state.served = 0;
+  for (const source of sources) {
+    const state = health.get(source);
+    if (state) state.served++;
+  }
+}
+
+/**
+ * Providers in priority order with their health
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  return priority.map(name => ({ ...health.get(name)! }));
+}
@@ -0,0 +1,147 @@
+// On-chain pricing - a token's own Uniswap V4 pool, read through StateView
+//
+// cc0strategy pools pair the token with native ETH (currency0), so the pool's
+// sqrtPriceX96 is sqrt(token per wei) in Q96 and the ETH price of a token is
+// its inverse. This works from the first block a pool exists, before any
+// aggregator has indexed it, and is the reference third-party prices are
+// checked against.
+import { formatUnits, type Address, type Hex } from 'viem';
+import { CHAIN_CONFIGS, type SupportedChain } from './config.js';
+import type { OnchainMarket } from './types/index.js';
+import { getChainClient } from './indexer/chains.js';
+
+const Q96 = 2n ** 96n;
+const PRICE_DECIMALS = 36;       // fixed-point precision of computed prices
+const MULTICALL_CHUNK = 250;     // pools per Multicall3 eth_call (2 reads each)
+
+const stateViewAbi = [
+  {
+    name: 'getSlot0',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'poolId', type: 'bytes32' }],
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'protocolFee', type: 'uint24' },
+      { name: 'lpFee', type: 'uint24' },
+    ],
+  },
+  {
+    name: 'getLiquidity',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'poolId', type: 'bytes32' }],
+    outputs: [{ name: 'liquidity', type: 'uint128' }],
+  },
+] as const;
+
+export interface PoolState {
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  tick: number;
+}
+
+/**
+ * Pool reserves implied by a V4 pool's sqrtPriceX96 and in-range liquidity.
+ * ETH is currency0, so price = token per ETH and:
+ *   ETH reserve = L / sqrtP,  token reserve = L * sqrtP
+ */
+export function poolReserves(sqrtPriceX96: bigint, liquidity: bigint): { eth: bigint; token: bigint } {
+  if (sqrtPriceX96 === 0n) return { eth: 0n, token: 0n };
+  return {
+    eth: (liquidity * Q96) / sqrtPriceX96,
+    token: (liquidity * sqrtPriceX96) / Q96,
+  };
+}
+
+// ETH per whole token, scaled by 10^PRICE_DECIMALS
+function scaledPrice(sqrtPriceX96: bigint, decimals: number): bigint {
+  if (sqrtPriceX96 === 0n) return 0n;
+  return (10n ** BigInt(decimals + PRICE_DECIMALS - 18) * Q96 * Q96) / (sqrtPriceX96 * sqrtPriceX96);
+}
+
+/**
+ * ETH price of one whole token at a pool's sqrtPriceX96
+ */
+export function priceEthFromSqrtPrice(sqrtPriceX96: bigint, decimals: number): string {
+  return formatUnits(scaledPrice(sqrtPriceX96, decimals), PRICE_DECIMALS);
+}
+
+/**
+ * slot0 and liquidity of many pools on a chain, all read at one block.
+ * Pools that don't exist (sqrtPriceX96 = 0) or fail to read are left out.
+ */
+export async function readPoolStates(
+  chain: SupportedChain,
+  poolIds: Hex[]
+): Promise<{ blockNumber: bigint; states: Map<string, PoolState> } | null> {
+  const client = getChainClient(chain);
+  if (!client) return null;
+
+  const stateView = CHAIN_CONFIGS[chain].stateView as Address;
+  const blockNumber = await client.getBlockNumber();
+  const states = new Map<string, PoolState>();
+
+  for (let i = 0; i < poolIds.length; i += MULTICALL_CHUNK) {
+    const chunk = poolIds.slice(i, i + MULTICALL_CHUNK);
+    const results = await client.multicall({
+      contracts: chunk.flatMap(poolId => [
+        { address: stateView, abi: stateViewAbi, functionName: 'getSlot0' as const, args: [poolId] as const },
+        { address: stateView, abi: stateViewAbi, functionName: 'getLiquidity' as const, args: [poolId] as const },
+      ]),
+      allowFailure: true,
+      blockNumber,
+      batchSize: 0,
+    });
+
+    chunk.forEach((poolId, j) => {
+      const slot0 = results[j * 2];
+      const liquidity = results[j * 2 + 1];
+      if (slot0.status !== 'success' || liquidity.status !== 'success') return;
+
+      const [sqrtPriceX96, tick] = slot0.result as readonly [bigint, number, number, number];
+      if (sqrtPriceX96 === 0n) return;
+      states.set(poolId.toLowerCase(), { sqrtPriceX96, liquidity: liquidity.result as bigint, tick });
+    });
+  }
+
+  return { blockNumber, states };
+}
+
+/**
+ * Price, liquidity and market cap of a token from its pool state. Tokens
+ * still in the pool are not circulating (same as token_stats).
+ */
+export function computeOnchainMarket(
+  state: PoolState,
+  decimals: number,
+  totalSupply: bigint | null,
+  blockNumber: bigint
+): OnchainMarket {
+  const price = scaledPrice(state.sqrtPriceX96, decimals);
+  const reserves = poolReserves(state.sqrtPriceX96, state.liquidity);
+  // Token amount (base units) in wei at the pool price
+  const valueInWei = (amount: bigint) => (amount * price) / 10n ** BigInt(decimals + PRICE_DECIMALS - 18);
+
+  let marketCapEth: string | null = null;
+  let fdvEth: string | null = null;
+  if (totalSupply !== null) {
+    const circulating = totalSupply > reserves.token ? totalSupply - reserves.token : 0n;
+    marketCapEth = formatUnits(valueInWei(circulating), 18);
+    fdvEth = formatUnits(valueInWei(totalSupply), 18);
+  }
+
+  return {
+    priceEth: formatUnits(price, PRICE_DECIMALS),
+    liquidityEth: formatUnits(reserves.eth, 18),
+    liquidityToken: formatUnits(reserves.token, decimals),
+    tvlEth: formatUnits(reserves.eth + valueInWei(reserves.token), 18),
+    marketCapEth,
+    fdvEth,
+    sqrtPriceX96: state.sqrtPriceX96.toString(),
+    liquidity: state.liquidity.toString(),
+    tick: state.tick,
+    blockNumber: blockNumber.toString(),
+  };
+}
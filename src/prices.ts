@@ -0,0 +1,177 @@
+// Reference prices - ETH/USD per chain
+//
+// Read on-chain: the chain's Chainlink ETH/USD aggregator, or the Uniswap V3
+// WETH/USDC pool when the feed can't be read (or is stale). Both work at any
+// block, which is how historical prices are filled in (src/indexer/eth-usd.ts).
+// GeckoTerminal is only a last resort for the current price.
+import type { Address } from 'viem';
+import { CHAIN_CONFIGS, type SupportedChain } from './config.js';
+import type { EthUsdPrice, EthUsdSource } from './types/index.js';
+import { getChainClient } from './indexer/chains.js';
+
+const ETH_PRICE_TTL_MS = 60 * 1000;  // 60 seconds
+const FEED_MAX_AGE_S = 24 * 60 * 60; // aggregator heartbeat is at most a day
+const Q192 = 2n ** 192n;
+const POOL_PRICE_DECIMALS = 8;
+
+// GeckoTerminal network ids
+export const GECKO_NETWORKS: Record<SupportedChain, string> = {
+  base: 'base',
+  ethereum: 'eth',
+};
+
+export interface EthUsdReading {
+  priceUsd: number;
+  source: EthUsdSource;
+  blockNumber: bigint;
+}
+
+const aggregatorAbi = [
+  {
+    name: 'latestRoundData',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' },
+    ],
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+  },
+] as const;
+
+const v3PoolAbi = [
+  {
+    name: 'slot0',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'observationIndex', type: 'uint16' },
+      { name: 'observationCardinality', type: 'uint16' },
+      { name: 'observationCardinalityNext', type: 'uint16' },
+      { name: 'feeProtocol', type: 'uint8' },
+      { name: 'unlocked', type: 'bool' },
+    ],
+  },
+] as const;
+
+const ethPrices = new Map<SupportedChain, { price: number; fetchedAt: number }>();
+
+/**
+ * USD per ETH from a WETH/USDC pool's sqrtPriceX96 (WETH 18 decimals, USDC 6).
+ * Pools order their tokens by address, so either side can be token0.
+ */
+export function ethUsdFromSqrtPrice(sqrtPriceX96: bigint, wethIsToken0: boolean): number {
+  if (sqrtPriceX96 === 0n) return 0;
+  const squared = sqrtPriceX96 * sqrtPriceX96;
+  // raw price = token1 units per token0 unit; shift by 10^(18-6) for decimals
+  const scaled = wethIsToken0
+    ? (squared * 10n ** BigInt(12 + POOL_PRICE_DECIMALS)) / Q192
+    : (Q192 * 10n ** BigInt(12 + POOL_PRICE_DECIMALS)) / squared;
+  return Number(scaled) / 10 ** POOL_PRICE_DECIMALS;
+}
+
+/**
+ * ETH/USD read on-chain at a block (latest when omitted). Returns null if
+ * neither the aggregator nor the pool can be read there.
+ */
+export async function readEthUsd(chain: SupportedChain, blockNumber?: bigint): Promise<EthUsdReading | null> {
+  const client = getChainClient(chain);
+  if (!client) return null;
+
+  const config = CHAIN_CONFIGS[chain];
+  const block = blockNumber ?? await client.getBlockNumber();
+
+  try {
+    const [round, decimals, { timestamp }] = await Promise.all([
+      client.readContract({ address: config.ethUsdFeed as Address, abi: aggregatorAbi, functionName: 'latestRoundData', blockNumber: block }),
+      client.readContract({ address: config.ethUsdFeed as Address, abi: aggregatorAbi, functionName: 'decimals', blockNumber: block }),
+      client.getBlock({ blockNumber: block }),
+    ]);
+    const [, answer, , updatedAt] = round;
+    if (answer > 0n && timestamp - updatedAt <= BigInt(FEED_MAX_AGE_S)) {
+      return { priceUsd: Number(answer) / 10 ** decimals, source: 'chainlink', blockNumber: block };
+    }
+    console.warn(`⚠️ [${chain}] ETH/USD feed stale at block ${block}, using WETH/USDC pool`);
+  } catch (e: any) {
+    console.warn(`⚠️ [${chain}] ETH/USD feed read failed at block ${block}:`, e.shortMessage || e.message);
+  }
+
+  try {
+    const [sqrtPriceX96] = await client.readContract({
+      address: config.wethUsdcPool as Address,
+      abi: v3PoolAbi,
+      functionName: 'slot0',
+      blockNumber: block,
+    });
+    const priceUsd = ethUsdFromSqrtPrice(sqrtPriceX96, config.weth.toLowerCase() < config.usdc.toLowerCase());
+    if (priceUsd > 0) return { priceUsd, source: 'pool', blockNumber: block };
+  } catch (e: any) {
+    console.warn(`⚠️ [${chain}] WETH/USDC pool read failed at block ${block}:`, e.shortMessage || e.message);
+  }
+  return null;
+}
+
+// Current WETH price from GeckoTerminal
+async function fetchGeckoEthUsd(chain: SupportedChain): Promise<number | null> {
+  const weth = CHAIN_CONFIGS[chain].weth.toLowerCase();
+  try {
+    const response = await fetch(
+      `https://api.geckoterminal.com/api/v2/simple/networks/${GECKO_NETWORKS[chain]}/token_price/${weth}`,
+      { headers: { 'Accept': 'application/json' } }
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return parseFloat(data.data?.attributes?.token_prices?.[weth] || '0') || null;
+  } catch (e: any) {
+    console.error(`ETH price error (${chain}):`, e.message);
+    return null;
+  }
+}
+
+/**
+ * Current ETH price in USD, cached for a minute
+ */
+export async function getEthUsdPrice(chain: SupportedChain): Promise<number | null> {
+  const cached = ethPrices.get(chain);
+  if (cached && Date.now() - cached.fetchedAt < ETH_PRICE_TTL_MS) return cached.price;
+
+  let price: number | null = null;
+  try {
+    price = (await readEthUsd(chain))?.priceUsd ?? null;
+  } catch (e: any) {
+    console.warn(`⚠️ [${chain}] ETH/USD read failed:`, e.shortMessage || e.message);
+  }
+  price ??= await fetchGeckoEthUsd(chain);
+  if (!price) return cached?.price ?? null;
+
+  ethPrices.set(chain, { price, fetchedAt: Date.now() });
+  return price;
+}
+
+/**
+ * The sample closest in time to `at`, from samples sorted by time
+ */
+export function nearestEthUsd(samples: EthUsdPrice[], at: Date): EthUsdPrice | null {
+  let best: EthUsdPrice | null = null;
+  for (const sample of samples) {
+    if (!best || Math.abs(sample.blockTimestamp.getTime() - at.getTime()) < Math.abs(best.blockTimestamp.getTime() - at.getTime())) {
+      best = sample;
+    }
+    if (sample.blockTimestamp > at) break;
+  }
+  return best;
+}
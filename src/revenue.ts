@@ -0,0 +1,206 @@
+// Fee split accounting - where FeeDistributor revenue went
+//
+// Every FeesReceived event carries the full fee. The distributor splits it by
+// FEE_SPLIT_BPS: NFT holders of the token's collection, the protocol treasury
+// (ChainConfig.treasury) and the token's deployer. Shares are derived from the
+// indexed fees; holders get what is left after the other two, so the parts
+// always add up to the total.
+import { formatEther } from 'viem';
+import { CHAIN_CONFIGS, FEE_SPLIT_BPS, type SupportedChain } from './config.js';
+import type { FeeShare, FeeSplit, FeeSplitReport, TokenFeeSplit } from './types/index.js';
+import { getFeeTotals, getCollectionTokens, getTokenByAddress } from './db/index.js';
+import { getEthUsdPrice } from './prices.js';
+
+// Preset report windows (days); `all` has no lower bound
+export const FEE_WINDOWS: Record<string, number | null> = {
+  '24h': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  all: null,
+};
+
+export interface FeeWindow {
+  from: Date | null;
+  to: Date;
+}
+
+type FeeTotals = Awaited<ReturnType<typeof getFeeTotals>>[number];
+
+interface Recipients {
+  holders: string | null;
+  treasury: string | null;
+  deployer: string | null;
+}
+
+/**
+ * Resolve a report window from a preset (`window`) or explicit ISO `from`/`to`
+ */
+export function resolveFeeWindow(params: { window?: string; from?: string; to?: string }): FeeWindow | { error: string } {
+  const to = params.to ? new Date(params.to) : new Date();
+  if (isNaN(to.getTime())) return { error: 'Invalid to date' };
+
+  if (params.from) {
+    const from = new Date(params.from);
+    if (isNaN(from.getTime())) return { error: 'Invalid from date' };
+    if (from >= to) return { error: 'from must be before to' };
+    return { from, to };
+  }
+
+  const window = params.window || '30d';
+  if (!Object.hasOwn(FEE_WINDOWS, window)) {
+    return { error: `Invalid window. Must be one of: ${Object.keys(FEE_WINDOWS).join(', ')}` };
+  }
+  const days = FEE_WINDOWS[window];
+  return { from: days === null ? null : new Date(to.getTime() - days * 24 * 60 * 60 * 1000), to };
+}
+
+// The single value every row shares, or null when they differ
+function common(values: (string | null | undefined)[]): string | null {
+  const unique = new Set(values.map(v => v?.toLowerCase() ?? null));
+  return unique.size === 1 ? [...unique][0] : null;
+}
+
+function share(bps: number, amountWei: bigint, totalUsd: number | null, recipient: string | null): FeeShare {
+  return {
+    bps,
+    recipient,
+    amountWei: amountWei.toString(),
+    amountEth: formatEther(amountWei),
+    amountUsd: totalUsd !== null ? (totalUsd * bps) / 10000 : null,
+  };
+}
+
+/**
+ * Split a set of per-token fee totals. Fees without a stored USD value are
+ * priced at the chain's current ETH price.
+ */
+async function buildSplit(rows: FeeTotals[], recipients?: Partial<Recipients>): Promise<FeeSplit> {
+  let totalWei = 0n;
+  let totalUsd: number | null = 0;
+  let fees = 0;
+  let usdAtFeeTime = true;
+
+  for (const row of rows) {
+    totalWei += row.feeWei;
+    fees += row.fees;
+
+    const unpricedWei = row.feeWei - row.pricedWei;
+    let rowUsd = row.feeUsd;
+    if (unpricedWei > 0n) {
+      usdAtFeeTime = false;
+      const ethPrice = await getEthUsdPrice(row.chain as SupportedChain);
+      if (ethPrice === null) {
+        totalUsd = null;
+        continue;
+      }
+      rowUsd += parseFloat(formatEther(unpricedWei)) * ethPrice;
+    }
+    if (totalUsd !== null) totalUsd += rowUsd;
+  }
+
+  const treasuryWei = (totalWei * BigInt(FEE_SPLIT_BPS.treasury)) / 10000n;
+  const deployerWei = (totalWei * BigInt(FEE_SPLIT_BPS.deployer)) / 10000n;
+  const holdersWei = totalWei - treasuryWei - deployerWei;
+
+  const to = {
+    holders: recipients?.holders !== undefined ? recipients.holders : common(rows.map(r => r.nftCollection)),
+    treasury: recipients?.treasury !== undefined
+      ? recipients.treasury
+      : common(rows.map(r => CHAIN_CONFIGS[r.chain as SupportedChain]?.treasury)),
+    deployer: recipients?.deployer !== undefined ? recipients.deployer : common(rows.map(r => r.deployer)),
+  };
+
+  return {
+    fees,
+    totalWei: totalWei.toString(),
+    totalEth: formatEther(totalWei),
+    totalUsd,
+    usdAtFeeTime,
+    holders: share(FEE_SPLIT_BPS.holders, holdersWei, totalUsd, to.holders),
+    treasury: share(FEE_SPLIT_BPS.treasury, treasuryWei, totalUsd, to.treasury),
+    deployer: share(FEE_SPLIT_BPS.deployer, deployerWei, totalUsd, to.deployer),
+  };
+}
+
+// Per-token splits, largest revenue first
+async function tokenSplits(rows: FeeTotals[]): Promise<TokenFeeSplit[]> {
+  const tokens: TokenFeeSplit[] = [];
+  for (const row of [...rows].sort((a, b) => (b.feeWei > a.feeWei ? 1 : b.feeWei < a.feeWei ? -1 : 0))) {
+    tokens.push({
+      tokenAddress: row.tokenAddress,
+      symbol: row.symbol,
+      chain: row.chain as SupportedChain,
+      split: await buildSplit([row]),
+    });
+  }
+  return tokens;
+}
+
+function windowFields(window: FeeWindow) {
+  return { from: window.from?.toISOString() ?? null, to: window.to.toISOString() };
+}
+
+/**
+ * Fee split of one strategy token. Returns null for an unknown token.
+ */
+export async function getTokenFeeSplit(tokenAddress: string, window: FeeWindow) {
+  const token = await getTokenByAddress(tokenAddress);
+  if (!token) return null;
+
+  const chain = (token.chain || 'base') as SupportedChain;
+  const rows = await getFeeTotals({ tokens: [token.address], from: window.from, to: window.to });
+
+  return {
+    token: { address: token.address, symbol: token.symbol, chain },
+    ...windowFields(window),
+    split: await buildSplit(rows, {
+      holders: token.nft_collection?.toLowerCase() ?? null,
+      treasury: CHAIN_CONFIGS[chain].treasury,
+      deployer: token.deployer?.toLowerCase() ?? null,
+    }),
+  };
+}
+
+/**
+ * Fee split of every strategy token paying holders of one NFT collection
+ */
+export async function getCollectionFeeSplit(
+  collection: string,
+  chain: SupportedChain,
+  window: FeeWindow
+): Promise<FeeSplitReport & { collection: string; chain: SupportedChain }> {
+  const tokens = await getCollectionTokens(collection, chain);
+  const rows = await getFeeTotals({ tokens, from: window.from, to: window.to });
+
+  return {
+    collection: collection.toLowerCase(),
+    chain,
+    ...windowFields(window),
+    split: await buildSplit(rows, {
+      holders: collection.toLowerCase(),
+      treasury: CHAIN_CONFIGS[chain].treasury,
+    }),
+    tokens: await tokenSplits(rows),
+  };
+}
+
+/**
+ * Protocol-wide fee split, with per-chain and per-token breakdowns
+ */
+export async function getProtocolFeeSplit(window: FeeWindow, chain?: SupportedChain): Promise<FeeSplitReport> {
+  const rows = await getFeeTotals({ chain, from: window.from, to: window.to });
+
+  const chains: FeeSplitReport['chains'] = {};
+  for (const name of new Set(rows.map(r => r.chain as SupportedChain))) {
+    chains[name] = await buildSplit(rows.filter(r => r.chain === name));
+  }
+
+  return {
+    ...windowFields(window),
+    split: await buildSplit(rows),
+    chains,
+    tokens: await tokenSplits(rows),
+  };
+}
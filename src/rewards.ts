@@ -0,0 +1,572 @@
+// NFT holder rewards - ownership lookup and per-NFT claimable amounts
+//
+// The FeeDistributor tracks one running total per strategy token,
+// accumulatedRewards(token) = rewards per NFT scaled by 1e18. Every NFT of the
+// collection accrues the same amount, and a claim settles an NFT up to the
+// running total at that block. So what an NFT can claim now is the total today
+// minus the total at its last claim (indexed in `claims`).
+import { encodeFunctionData, formatEther, getAbiItem, toFunctionSelector, type Address, type PublicClient } from 'viem';
+import {
+  CHAIN_CONFIGS,
+  getActiveChains,
+  getFeeDistributor,
+  type SupportedChain,
+} from './config.js';
+import type {
+  NftReward,
+  PendingReward,
+  WalletRewards,
+  ClaimPlan,
+  ClaimTransaction,
+  NftTokenRewards,
+  NftRewards,
+} from './types/index.js';
+import {
+  getRewardTokens,
+  getLastClaims,
+  getCollectionTokens,
+  getFeePerNftUntil,
+  getOwnedNfts,
+  getIndexerState,
+  getTokenByAddress,
+} from './db/index.js';
+import { getChainClient, checkpointId, ALCHEMY_HOSTS } from './indexer/chains.js';
+import { getEthUsdPrice } from './prices.js';
+import { collectionJob } from './indexer/nfts.js';
+
+const PRECISION = 10n ** 18n;
+
+// Claims touch storage per NFT; larger lists are split so each tx stays well under the block gas limit
+export const MAX_CLAIM_IDS_PER_TX = 100;
+// Upper bound on ids accepted in one claim request
+export const MAX_CLAIM_IDS = 2000;
+// Upper bound on ids in one NFT rewards lookup
+export const MAX_NFT_REWARDS_IDS = 500;
+// Fallback gas when the node can't estimate: base cost plus per-NFT storage writes
+const CLAIM_GAS_BASE = 60000n;
+const CLAIM_GAS_PER_NFT = 30000n;
+
+const feeDistributorAbi = [
+  {
+    name: 'accumulatedRewards',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  // Emits FeesClaimed(token, claimer, tokenIds, amount) - paid to the caller,
+  // who must own every id. Checked against the deployed bytecode before any
+  // claim transaction is built (distributorHasClaim)
+  {
+    name: 'claim',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'token', type: 'address' }, { name: 'tokenIds', type: 'uint256[]' }],
+    outputs: [],
+  },
+] as const;
+
+const CLAIM_SELECTOR = toFunctionSelector(getAbiItem({ abi: feeDistributorAbi, name: 'claim' }));
+
+// Distributors whose bytecode dispatches CLAIM_SELECTOR, checked once each
+const claimSupport = new Map<string, boolean>();
+
+const erc721OwnerAbi = [
+  {
+    name: 'ownerOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ type: 'address' }],
+  },
+] as const;
+
+const erc721EnumerableAbi = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'tokenOfOwnerByIndex',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }, { name: 'index', type: 'uint256' }],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const;
+
+// ============================================
+// NFT OWNERSHIP
+// ============================================
+
+// Alchemy NFT API: every NFT the wallet holds across the given contracts
+async function fetchOwnedFromAlchemy(
+  chain: SupportedChain,
+  wallet: string,
+  collections: string[]
+): Promise<Map<string, number[]>> {
+  const apiKey = process.env.ALCHEMY_API_KEY;
+  if (!apiKey) throw new Error('ALCHEMY_API_KEY not configured');
+
+  const owned = new Map<string, number[]>(collections.map(c => [c, []]));
+  // The API accepts at most 45 contract filters per request
+  for (let i = 0; i < collections.length; i += 45) {
+    let pageKey: string | undefined;
+    do {
+      const params = new URLSearchParams({ owner: wallet, withMetadata: 'false', pageSize: '100' });
+      collections.slice(i, i + 45).forEach(c => params.append('contractAddresses[]', c));
+      if (pageKey) params.set('pageKey', pageKey);
+
+      const response = await fetch(`https://${ALCHEMY_HOSTS[chain]}/nft/v3/${apiKey}/getNFTsForOwner?${params}`);
+      if (!response.ok) throw new Error(`Alchemy NFT API HTTP ${response.status}`);
+      const data = await response.json();
+
+      for (const nft of data.ownedNfts || []) {
+        const ids = owned.get(nft.contract?.address?.toLowerCase());
+        if (ids) ids.push(Number(nft.tokenId));
+      }
+      pageKey = data.pageKey;
+    } while (pageKey);
+  }
+  return owned;
+}
+
+// ERC721Enumerable fallback, one collection at a time
+async function fetchOwnedOnChain(client: PublicClient, wallet: Address, collection: Address): Promise<number[]> {
+  const balance = await client.readContract({
+    address: collection,
+    abi: erc721EnumerableAbi,
+    functionName: 'balanceOf',
+    args: [wallet],
+  });
+
+  const ids: number[] = [];
+  for (let i = 0n; i < balance; i++) {
+    const id = await client.readContract({
+      address: collection,
+      abi: erc721EnumerableAbi,
+      functionName: 'tokenOfOwnerByIndex',
+      args: [wallet, i],
+    });
+    ids.push(Number(id));
+  }
+  return ids;
+}
+
+// Collections whose ownership index is within the reorg window of `head`
+async function indexedCollections(chain: SupportedChain, collections: string[], head: bigint): Promise<string[]> {
+  const indexed: string[] = [];
+  for (const collection of collections) {
+    const state = await getIndexerState(checkpointId(chain, collectionJob(collection)));
+    if (state?.lastBlock && head - state.lastBlock <= BigInt(CHAIN_CONFIGS[chain].reorgWindow)) {
+      indexed.push(collection);
+    }
+  }
+  return indexed;
+}
+
+/**
+ * NFT ids the wallet holds in each collection on a chain. Collections the
+ * ownership indexer has caught up on come from `nft_owners`; the rest from the
+ * Alchemy NFT API, or ERC721Enumerable as a last resort.
+ */
+export async function getWalletNfts(
+  chain: SupportedChain,
+  wallet: string,
+  collections: string[],
+  head?: bigint
+): Promise<Map<string, number[]>> {
+  const unique = [...new Set(collections.map(c => c.toLowerCase()))];
+  if (unique.length === 0) return new Map();
+
+  const indexed = head !== undefined ? await indexedCollections(chain, unique, head) : [];
+  const owned = await getOwnedNfts(chain, wallet, indexed);
+  const remaining = unique.filter(c => !indexed.includes(c));
+  if (remaining.length === 0) return owned;
+
+  try {
+    for (const [collection, ids] of await fetchOwnedFromAlchemy(chain, wallet, remaining)) {
+      owned.set(collection, ids);
+    }
+    return owned;
+  } catch (e: any) {
+    console.warn(`⚠️ [${chain}] Alchemy NFT lookup failed, using ERC721Enumerable:`, e.message);
+  }
+
+  const client = getChainClient(chain);
+  if (!client) return owned;
+
+  for (const collection of remaining) {
+    try {
+      owned.set(collection, await fetchOwnedOnChain(client, wallet as Address, collection as Address));
+    } catch (e: any) {
+      console.warn(`⚠️ [${chain}] Ownership lookup failed for ${collection}:`, e.shortMessage || e.message);
+    }
+  }
+  return owned;
+}
+
+// ============================================
+// CLAIMABLE AMOUNTS
+// ============================================
+
+interface SettlementToken {
+  address: string;
+  protocolVersion: string | null;
+}
+
+interface NftSettlement {
+  accrued: bigint;
+  settled: Map<number, bigint>;
+  lastClaims: Awaited<ReturnType<typeof getLastClaims>>;
+}
+
+/**
+ * Per-NFT rewards of strategy tokens at a single block: the running total
+ * every NFT has accrued, and what each id was settled to by its last claim
+ * (wei). accumulatedRewards is read through one multicall per block - the
+ * current one plus each distinct last-claim block - however many tokens are
+ * linked. Tokens whose distributor isn't configured are left out.
+ */
+async function readNftSettlements(
+  chain: SupportedChain,
+  tokens: SettlementToken[],
+  tokenIds: number[],
+  blockNumber?: bigint
+): Promise<Map<string, NftSettlement>> {
+  const settlements = new Map<string, NftSettlement>();
+  const client = getChainClient(chain);
+  if (!client) return settlements;
+
+  const readable = tokens.flatMap(token => {
+    const feeDistributor = getFeeDistributor(chain, token.protocolVersion);
+    return feeDistributor ? [{ address: token.address, feeDistributor }] : [];
+  });
+  if (readable.length === 0) return settlements;
+
+  const accumulatedCalls = (batch: typeof readable) => batch.map(token => ({
+    address: token.feeDistributor as Address,
+    abi: feeDistributorAbi,
+    functionName: 'accumulatedRewards' as const,
+    args: [token.address as Address] as const,
+  }));
+
+  const current = await client.multicall({ contracts: accumulatedCalls(readable), allowFailure: false, blockNumber });
+  const lastClaims = new Map<string, NftSettlement['lastClaims']>();
+  const byBlock = new Map<bigint, typeof readable>();
+  for (const token of readable) {
+    const claims = await getLastClaims(token.address, tokenIds);
+    lastClaims.set(token.address, claims);
+    for (const block of new Set([...claims.values()].map(claim => claim.blockNumber))) {
+      byBlock.set(block, [...(byBlock.get(block) || []), token]);
+    }
+  }
+
+  // Per-NFT total at each claim block; indexed fees stand in when the RPC can't serve history
+  const settledAt = new Map<string, bigint>();
+  for (const [block, batch] of byBlock) {
+    const results = await client
+      .multicall({ contracts: accumulatedCalls(batch), allowFailure: true, blockNumber: block })
+      .catch(() => null);
+    for (let i = 0; i < batch.length; i++) {
+      const result = results?.[i];
+      settledAt.set(
+        `${batch[i].address}:${block}`,
+        result?.status === 'success'
+          ? result.result / PRECISION
+          : await getFeePerNftUntil(batch[i].address, block)
+      );
+    }
+  }
+
+  readable.forEach((token, i) => {
+    const claims = lastClaims.get(token.address)!;
+    const settled = new Map<number, bigint>();
+    for (const [tokenId, claim] of claims) {
+      settled.set(tokenId, settledAt.get(`${token.address}:${claim.blockNumber}`)!);
+    }
+    settlements.set(token.address, { accrued: current[i] / PRECISION, settled, lastClaims: claims });
+  });
+  return settlements;
+}
+
+/**
+ * Claimable wei per NFT for one strategy token, read at a single block
+ */
+export async function getClaimableByNft(
+  chain: SupportedChain,
+  tokenAddress: string,
+  protocolVersion: string | null,
+  tokenIds: number[],
+  blockNumber?: bigint
+): Promise<NftReward[]> {
+  if (tokenIds.length === 0) return [];
+  const settlements = await readNftSettlements(chain, [{ address: tokenAddress, protocolVersion }], tokenIds, blockNumber);
+  const settlement = settlements.get(tokenAddress);
+  if (!settlement) return [];
+
+  return tokenIds.map(tokenId => {
+    const settled = settlement.settled.get(tokenId) ?? 0n;
+    const pending = settlement.accrued > settled ? settlement.accrued - settled : 0n;
+    return { tokenId, pendingAmount: pending.toString() };
+  });
+}
+
+/**
+ * Pending rewards for every NFT a wallet holds, across all active chains
+ */
+export async function getWalletRewards(wallet: string): Promise<WalletRewards> {
+  const owner = wallet.toLowerCase();
+  const chains = getActiveChains();
+  const tokens = (await getRewardTokens()).filter(t => chains.includes(t.chain as SupportedChain));
+
+  const rewards: PendingReward[] = [];
+  const ethPriceUsd: WalletRewards['ethPriceUsd'] = {};
+  let totalWei = 0n;
+  let totalUsd = 0;
+  let usdComplete = true;
+
+  for (const chain of chains) {
+    const chainTokens = tokens.filter(t => t.chain === chain);
+    if (chainTokens.length === 0) continue;
+
+    const client = getChainClient(chain);
+    const blockNumber = client ? await client.getBlockNumber() : undefined;
+
+    const owned = await getWalletNfts(chain, owner, chainTokens.map(t => t.nftCollection), blockNumber);
+    const held = chainTokens.filter(t => (owned.get(t.nftCollection.toLowerCase())?.length ?? 0) > 0);
+    if (held.length === 0) continue;
+    const ethPrice = await getEthUsdPrice(chain);
+    ethPriceUsd[chain] = ethPrice;
+
+    for (const token of held) {
+      const tokenIds = owned.get(token.nftCollection.toLowerCase())!.sort((a, b) => a - b);
+      const breakdown = await getClaimableByNft(chain, token.address, token.protocolVersion, tokenIds, blockNumber);
+      const pending = breakdown.reduce((sum, nft) => sum + BigInt(nft.pendingAmount), 0n);
+      const pendingUsd = ethPrice !== null ? parseFloat(formatEther(pending)) * ethPrice : null;
+
+      totalWei += pending;
+      if (pendingUsd !== null) totalUsd += pendingUsd;
+      else if (pending > 0n) usdComplete = false;
+
+      rewards.push({
+        tokenAddress: token.address,
+        tokenSymbol: token.symbol,
+        chain,
+        nftCollection: token.nftCollection,
+        pendingAmount: pending.toString(),
+        pendingEth: formatEther(pending),
+        pendingUsd,
+        tokenIds,
+        breakdown,
+      });
+    }
+  }
+
+  rewards.sort((a, b) => {
+    const diff = BigInt(b.pendingAmount) - BigInt(a.pendingAmount);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+
+  return {
+    wallet: owner,
+    rewards,
+    totalPendingEth: formatEther(totalWei),
+    totalPendingUsd: usdComplete ? totalUsd : null,
+    ethPriceUsd,
+  };
+}
+
+// ============================================
+// NFT REWARDS
+// ============================================
+
+/**
+ * Rewards of individual NFTs of a collection from every strategy token linked
+ * to it: accrued, claimed (settled by the last claim) and claimable, in wei.
+ * Claims come from indexed `claims.token_ids`, totals from the FeeDistributor.
+ */
+export async function getCollectionNftRewards(
+  chain: SupportedChain,
+  collection: string,
+  tokenIds: number[]
+): Promise<{ blockNumber: string | null; nfts: NftRewards[] }> {
+  const linked = new Set(await getCollectionTokens(collection, chain));
+  const tokens = (await getRewardTokens()).filter(t => linked.has(t.address));
+
+  const client = getChainClient(chain);
+  const blockNumber = client ? await client.getBlockNumber() : undefined;
+
+  const settlements = await readNftSettlements(chain, tokens, tokenIds, blockNumber);
+  const byId = new Map<number, NftTokenRewards[]>(tokenIds.map(id => [id, []]));
+  for (const token of tokens) {
+    const settlement = settlements.get(token.address);
+    if (!settlement) continue;
+
+    for (const tokenId of tokenIds) {
+      const claimed = settlement.settled.get(tokenId) ?? 0n;
+      const claimable = settlement.accrued > claimed ? settlement.accrued - claimed : 0n;
+      const lastClaim = settlement.lastClaims.get(tokenId);
+
+      byId.get(tokenId)!.push({
+        tokenAddress: token.address,
+        tokenSymbol: token.symbol,
+        accrued: settlement.accrued.toString(),
+        accruedEth: formatEther(settlement.accrued),
+        claimed: claimed.toString(),
+        claimedEth: formatEther(claimed),
+        claimable: claimable.toString(),
+        claimableEth: formatEther(claimable),
+        lastClaim: lastClaim ? {
+          txHash: lastClaim.txHash,
+          claimer: lastClaim.claimer,
+          blockNumber: lastClaim.blockNumber.toString(),
+          blockTimestamp: lastClaim.blockTimestamp.toISOString(),
+        } : null,
+      });
+    }
+  }
+
+  return {
+    blockNumber: blockNumber?.toString() ?? null,
+    nfts: tokenIds.map(tokenId => {
+      const rewards = byId.get(tokenId)!;
+      const total = rewards.reduce((sum, r) => sum + BigInt(r.claimable), 0n);
+      return { tokenId, claimable: total.toString(), claimableEth: formatEther(total), rewards };
+    }),
+  };
+}
+
+// ============================================
+// CLAIM TRANSACTIONS
+// ============================================
+
+export type ClaimPlanResult = ClaimPlan | { error: string; status: 400 | 404 | 503; details?: Record<string, unknown> };
+
+// ownerOf for each id in one multicall; burned or nonexistent ids come back null
+async function readOwners(
+  client: PublicClient,
+  collection: Address,
+  tokenIds: number[],
+  blockNumber: bigint
+): Promise<(string | null)[]> {
+  const results = await client.multicall({
+    contracts: tokenIds.map(id => ({
+      address: collection,
+      abi: erc721OwnerAbi,
+      functionName: 'ownerOf' as const,
+      args: [BigInt(id)] as const,
+    })),
+    allowFailure: true,
+    blockNumber,
+  });
+  return results.map(r => (r.status === 'success' ? (r.result as string).toLowerCase() : null));
+}
+
+/**
+ * Whether a distributor's deployed code contains claim(address,uint256[]) in
+ * its dispatcher (PUSH4 <selector>), so we never hand out calldata it would
+ * reject or route elsewhere
+ */
+async function distributorHasClaim(client: PublicClient, feeDistributor: string): Promise<boolean> {
+  const key = feeDistributor.toLowerCase();
+  const known = claimSupport.get(key);
+  if (known !== undefined) return known;
+
+  const code = await client.getCode({ address: feeDistributor as Address });
+  const supported = !!code && code.toLowerCase().includes(`63${CLAIM_SELECTOR.slice(2)}`);
+  claimSupport.set(key, supported);
+  if (!supported) console.error(`❌ FeeDistributor ${feeDistributor} has no claim(address,uint256[]) (${CLAIM_SELECTOR})`);
+  return supported;
+}
+
+/**
+ * Build ready-to-sign claim transactions for a wallet's NFTs of one strategy
+ * token. Ids the wallet doesn't own or that have nothing pending are dropped
+ * (and reported); the rest are split into batches of MAX_CLAIM_IDS_PER_TX.
+ */
+export async function buildClaimTransactions(
+  wallet: string,
+  tokenAddress: string,
+  tokenIds: number[]
+): Promise<ClaimPlanResult> {
+  const owner = wallet.toLowerCase();
+  const token = await getTokenByAddress(tokenAddress);
+  if (!token) return { error: 'Token not found', status: 404 };
+
+  const chain = (token.chain || 'base') as SupportedChain;
+  const feeDistributor = getFeeDistributor(chain, token.protocol_version);
+  const client = getChainClient(chain);
+  if (!feeDistributor || !client || !(await distributorHasClaim(client, feeDistributor))) {
+    return { error: `Claims not available on ${chain}`, status: 503 };
+  }
+
+  const ids = [...new Set(tokenIds)].sort((a, b) => a - b);
+  const blockNumber = await client.getBlockNumber();
+
+  const owners = await readOwners(client, token.nft_collection as Address, ids, blockNumber);
+  const notOwned = ids.filter((_, i) => owners[i] !== owner);
+  const owned = ids.filter((_, i) => owners[i] === owner);
+  if (owned.length === 0) {
+    return { error: 'Wallet does not own any of the given NFTs', status: 400, details: { notOwned } };
+  }
+
+  const breakdown = await getClaimableByNft(chain, token.address, token.protocol_version, owned, blockNumber);
+  const claimable = breakdown.filter(nft => BigInt(nft.pendingAmount) > 0n);
+  const nothingToClaim = breakdown.filter(nft => BigInt(nft.pendingAmount) === 0n).map(nft => nft.tokenId);
+  if (claimable.length === 0) {
+    return { error: 'Nothing to claim for the given NFTs', status: 400, details: { notOwned, nothingToClaim } };
+  }
+
+  const chainId = CHAIN_CONFIGS[chain].chainId;
+  const transactions: ClaimTransaction[] = [];
+  let total = 0n;
+
+  for (let i = 0; i < claimable.length; i += MAX_CLAIM_IDS_PER_TX) {
+    const batch = claimable.slice(i, i + MAX_CLAIM_IDS_PER_TX);
+    const batchIds = batch.map(nft => nft.tokenId);
+    const amount = batch.reduce((sum, nft) => sum + BigInt(nft.pendingAmount), 0n);
+    const data = encodeFunctionData({
+      abi: feeDistributorAbi,
+      functionName: 'claim',
+      args: [token.address as Address, batchIds.map(id => BigInt(id))],
+    });
+
+    let gas: bigint | null;
+    try {
+      const estimate = await client.estimateGas({ account: owner as Address, to: feeDistributor as Address, data });
+      gas = estimate + estimate / 5n;  // 20% headroom
+    } catch (e: any) {
+      console.warn(`⚠️ [${chain}] Claim gas estimate failed for ${token.address}:`, e.shortMessage || e.message);
+      gas = null;
+    }
+
+    total += amount;
+    transactions.push({
+      to: feeDistributor.toLowerCase(),
+      data,
+      value: '0',
+      chainId,
+      tokenIds: batchIds,
+      estimatedAmount: amount.toString(),
+      estimatedAmountEth: formatEther(amount),
+      gas: (gas ?? CLAIM_GAS_BASE + CLAIM_GAS_PER_NFT * BigInt(batchIds.length)).toString(),
+      gasEstimated: gas !== null,
+    });
+  }
+
+  return {
+    wallet: owner,
+    tokenAddress: token.address,
+    chain,
+    feeDistributor: feeDistributor.toLowerCase(),
+    blockNumber: blockNumber.toString(),
+    transactions,
+    totalEstimatedAmount: total.toString(),
+    totalEstimatedEth: formatEther(total),
+    skipped: { notOwned, nothingToClaim },
+  };
+}
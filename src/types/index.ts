@@ -1,8 +1,10 @@
 // cc0strategy Indexer Types
+import type { SupportedChain, ProtocolVersion } from '../config.js';
 
 export interface Token {
   id: string;
   address: string;
+  chain: SupportedChain;
   name: string;
   symbol: string;
   decimals: number;
@@ -24,8 +26,18 @@ export interface Token {
   deployerTwitter?: string;
   deployerWebsite?: string;
   verifiedAt?: Date;
+  // cc0strategy generation the token was deployed through
+  protocolVersion?: ProtocolVersion;
+  totalSupply?: string;
+  collectionId?: number;
+  enrichmentStatus?: EnrichmentStatus;
+  enrichmentMissing?: EnrichmentStep[];
 }
 
+// Post-discovery enrichment of indexed tokens
+export type EnrichmentStatus = 'pending' | 'complete';
+export type EnrichmentStep = 'metadata' | 'collection_name' | 'collection' | 'image';
+
 export interface Swap {
   id: string;
   tokenAddress: string;
@@ -36,6 +48,10 @@ export interface Swap {
   amountInEth?: string;
   priceEth: string;
   priceUsd?: number;
+  // Pool state after the swap
+  sqrtPriceX96?: string;
+  liquidity?: string;
+  tick?: number;
   txHash: string;
   blockNumber: bigint;
   blockTimestamp: Date;
@@ -69,6 +85,18 @@ export interface Claim {
   logIndex: number;
 }
 
+export interface NftTransfer {
+  chain: SupportedChain;
+  collection: string;
+  tokenId: string;
+  from: string;
+  to: string;
+  txHash: string;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  logIndex: number;
+}
+
 export interface TokenStats {
   tokenAddress: string;
   volume24h: string;
@@ -110,22 +138,212 @@ export interface IndexerState {
   id: string;
   lastBlock: bigint;
   lastUpdated: Date;
+  // Block range size the scanner last used for this checkpoint
+  batchSize?: number;
 }
 
 export interface TokenWithStats extends Token {
   stats?: TokenStats;
 }
 
+export interface NftReward {
+  tokenId: number;
+  // wei
+  pendingAmount: string;
+}
+
 export interface PendingReward {
   tokenAddress: string;
   tokenSymbol: string;
+  chain: SupportedChain;
   nftCollection: string;
+  // wei, summed over tokenIds
   pendingAmount: string;
+  pendingEth: string;
+  pendingUsd: number | null;
   tokenIds: number[];
+  breakdown: NftReward[];
 }
 
 export interface WalletRewards {
   wallet: string;
   rewards: PendingReward[];
   totalPendingEth: string;
+  totalPendingUsd: number | null;
+  ethPriceUsd: Partial<Record<SupportedChain, number | null>>;
+}
+
+// One NFT's rewards from one strategy token (wei strings)
+export interface NftTokenRewards {
+  tokenAddress: string;
+  tokenSymbol: string;
+  accrued: string;
+  accruedEth: string;
+  claimed: string;
+  claimedEth: string;
+  claimable: string;
+  claimableEth: string;
+  lastClaim: {
+    txHash: string;
+    claimer: string;
+    blockNumber: string;
+    blockTimestamp: string;
+  } | null;
+}
+
+export interface NftRewards {
+  tokenId: number;
+  // wei, summed over every linked strategy token
+  claimable: string;
+  claimableEth: string;
+  rewards: NftTokenRewards[];
+}
+
+// One ready-to-sign FeeDistributor claim
+export interface ClaimTransaction {
+  to: string;
+  data: string;
+  value: string;
+  chainId: number;
+  tokenIds: number[];
+  // wei, summed over tokenIds
+  estimatedAmount: string;
+  estimatedAmountEth: string;
+  gas: string;
+  // false when the node couldn't estimate and `gas` is a per-NFT heuristic
+  gasEstimated: boolean;
+}
+
+export interface ClaimPlan {
+  wallet: string;
+  tokenAddress: string;
+  chain: SupportedChain;
+  feeDistributor: string;
+  blockNumber: string;
+  transactions: ClaimTransaction[];
+  totalEstimatedAmount: string;
+  totalEstimatedEth: string;
+  // requested ids left out of the transactions
+  skipped: {
+    notOwned: number[];
+    nothingToClaim: number[];
+  };
+}
+
+// One recipient's part of the FeeDistributor split
+export interface FeeShare {
+  bps: number;
+  // null when the share goes to several addresses (e.g. deployers of many tokens)
+  recipient: string | null;
+  amountWei: string;
+  amountEth: string;
+  amountUsd: number | null;
+}
+
+export interface FeeSplit {
+  fees: number;
+  totalWei: string;
+  totalEth: string;
+  totalUsd: number | null;
+  // false when some fees had no USD value yet and were priced at today's ETH price
+  usdAtFeeTime: boolean;
+  holders: FeeShare;
+  treasury: FeeShare;
+  deployer: FeeShare;
+}
+
+export interface TokenFeeSplit {
+  tokenAddress: string;
+  symbol: string;
+  chain: SupportedChain;
+  split: FeeSplit;
+}
+
+export interface FeeSplitReport {
+  from: string | null;
+  to: string;
+  split: FeeSplit;
+  chains?: Partial<Record<SupportedChain, FeeSplit>>;
+  tokens?: TokenFeeSplit[];
+}
+
+export type ReconciliationStatus = 'ok' | 'mismatch' | 'insolvent';
+
+// A token whose on-chain accrued rewards disagree with its indexed fees (wei)
+export interface TokenDiscrepancy {
+  tokenAddress: string;
+  symbol: string;
+  accrued: string;
+  holderFees: string;
+  claimed: string;
+  difference: string;
+}
+
+// One FeeDistributor checked against the indexed fees and claims at a block.
+// Amounts are wei strings.
+export interface DistributorReconciliation {
+  chain: SupportedChain;
+  feeDistributor: string;
+  versions: string[];
+  blockNumber: bigint;
+  tokenCount: number;
+  accruedRewards: string;
+  feesReceived: string;
+  holderFees: string;
+  feesClaimed: string;
+  ethBalance: string;
+  wethBalance: string;
+  owed: string;
+  shortfall: string;
+  status: ReconciliationStatus;
+  discrepancies: TokenDiscrepancy[];
+  checkedAt?: Date;
+}
+
+// Market figures from a token's own V4 pool (ETH amounts as decimal strings)
+export interface OnchainMarket {
+  priceEth: string;
+  liquidityEth: string;
+  liquidityToken: string;
+  tvlEth: string;
+  // null when the token's total supply is unknown
+  marketCapEth: string | null;
+  fdvEth: string | null;
+  sqrtPriceX96: string;
+  liquidity: string;
+  tick: number;
+  blockNumber: string;
+}
+
+export type MarketSource = 'geckoterminal' | 'dexscreener' | 'onchain';
+
+// Market figures as a provider reports them (USD unless noted)
+export interface MarketQuote {
+  priceUsd: number;
+  priceEth: number | null;
+  priceChange24h: number;
+  volume24h: number;
+  marketCap: number;
+  fdv: number;
+  liquidity: number;
+}
+
+// What a market data provider needs to know about a token
+export interface MarketToken {
+  address: string;
+  chain: SupportedChain;
+  poolId: string | null;
+  decimals: number;
+  totalSupply: string | null;
+}
+
+export type EthUsdSource = 'chainlink' | 'pool';
+
+// One ETH/USD reference sample (eth_usd_prices)
+export interface EthUsdPrice {
+  chain: SupportedChain;
+  blockNumber: bigint;
+  blockTimestamp: Date;
+  priceUsd: number;
+  source: EthUsdSource;
 }